@@ -1,5 +1,7 @@
+import ChangeService from '@services/change-service';
 import ConfigService from '@services/config-service';
 import EnvService from '@services/env-service';
+import ManifestService from '@services/manifest-service';
 import ReleaseService from '@services/release-service';
 
 export class OrbitIt {
@@ -22,9 +24,50 @@ export class OrbitIt {
       config: foundConfig.data,
     });
   }
+
+  async createChangeService(): Promise<ChangeService> {
+    const foundConfig = await this.config.get();
+
+    if (foundConfig.error || !foundConfig.data) {
+      throw foundConfig.error;
+    }
+
+    return new ChangeService({
+      config: foundConfig.data,
+    });
+  }
+
+  async createManifestService(): Promise<ManifestService> {
+    const foundConfig = await this.config.get();
+
+    if (foundConfig.error || !foundConfig.data) {
+      throw foundConfig.error;
+    }
+
+    return new ManifestService({
+      config: foundConfig.data,
+    });
+  }
 }
 
 export { configSchema } from '@schemas/config-schema';
 export type { Config } from '@services/config-service';
-export type { ReleaseType } from '@services/release-service';
+export type {
+  PackageReleaseResult,
+  ReleaseBump,
+  ReleasePlan,
+  ReleasePlanGitHubRelease,
+  ReleasePlanPullRequest,
+  ReleaseResult,
+  ReleaseType,
+} from '@services/release-service';
 export { OrbitItError, type OrbitItErrorOptions } from '@utils/errors';
+export type { ChangeBump, ChangeFile } from '@/types/change-files';
+export type { CommitFooter, ParsedCommit } from '@/types/commits';
+export type { FileChange } from '@/types/file-change-set';
+export type { ManifestEntry, VersionsManifest } from '@/types/manifest';
+export type {
+  ReleaseNotesCommit,
+  ReleaseNotesContext,
+  ReleaseNotesContributor,
+} from '@/types/templates';
@@ -0,0 +1,129 @@
+/**
+ * @name FileChangeSet
+ * @file src/lib/file-change-set.ts
+ * @description Class to collect file edits in memory before they are written to disk
+ */
+
+import path from 'node:path';
+import { dirExists, readMdFile } from '@utils/files';
+import type { FileChange } from '@/types/file-change-set';
+
+const trailingNewlineRegex = /\n$/;
+
+class FileChangeSet {
+  private changes = new Map<string, FileChange>();
+
+  // #region - @read
+  /**
+   * @description Reads a file, taking previous edits of the change set into account.
+   * @param filePath The path of the file.
+   * @returns The content of the file or null if it doesn't exist.
+   */
+  async read(filePath: string): Promise<string | null> {
+    const key = this.toKey(filePath);
+    const change = this.changes.get(key);
+
+    if (change) {
+      return change.after;
+    }
+
+    const fullPath = path.resolve(key);
+
+    if (!dirExists(fullPath)) {
+      return null;
+    }
+
+    return await readMdFile(fullPath);
+  }
+  // #endregion - @read
+
+  // #region - @write
+  /**
+   * @description Sets the new content of a file, creating it if needed.
+   * @param filePath The path of the file.
+   * @param content The new content, or null to delete the file.
+   */
+  async write(filePath: string, content: string | null): Promise<void> {
+    const key = this.toKey(filePath);
+    const before = this.changes.has(key)
+      ? this.changes.get(key).before
+      : await this.read(key);
+
+    this.changes.set(key, { path: key, before, after: content });
+  }
+  // #endregion - @write
+
+  // #region - @edit
+  /**
+   * @description Transforms the content of an existing file. Missing files are skipped.
+   * @param filePath The path of the file.
+   * @param transform Receives the current content and returns the new one.
+   * @returns False if the file doesn't exist.
+   */
+  async edit(
+    filePath: string,
+    transform: (content: string) => string
+  ): Promise<boolean> {
+    const content = await this.read(filePath);
+
+    if (content === null) {
+      return false;
+    }
+
+    await this.write(filePath, transform(content));
+    return true;
+  }
+  // #endregion - @edit
+
+  // #region - @editJson
+  /**
+   * @description Transforms the parsed content of an existing JSON file, keeping its trailing newline.
+   * The file is left untouched when the transform doesn't change the data.
+   * @param filePath The path of the JSON file.
+   * @param transform Receives the parsed content and mutates it.
+   * @returns False if the file doesn't exist.
+   */
+  async editJson(
+    filePath: string,
+    transform: (data: Record<string, unknown>) => void
+  ): Promise<boolean> {
+    return await this.edit(filePath, (content) => {
+      const data = JSON.parse(content);
+      const original = JSON.stringify(data);
+      transform(data);
+
+      if (JSON.stringify(data) === original) {
+        return content;
+      }
+
+      const newline = trailingNewlineRegex.test(content) ? '\n' : '';
+      return `${JSON.stringify(data, null, 2)}${newline}`;
+    });
+  }
+  // #endregion - @editJson
+
+  // #region - @list
+  /**
+   * @description Lists the files whose content actually changed.
+   * @returns The changes sorted by path.
+   */
+  list(): FileChange[] {
+    return Array.from(this.changes.values())
+      .filter((change) => change.before !== change.after)
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }
+  // #endregion - @list
+
+  // #region - @toKey
+  /**
+   * @description Normalizes a path relative to the current working directory.
+   * @param filePath The absolute or relative path.
+   * @returns The relative path used as key.
+   */
+  private toKey(filePath: string): string {
+    return path.relative(process.cwd(), path.resolve(filePath));
+  }
+  // #endregion - @toKey
+}
+
+export default FileChangeSet;
@@ -4,17 +4,20 @@
  */
 
 import { OrbitItError } from '@utils/errors';
-import simpleGit, { type SimpleGit } from 'simple-git';
+import simpleGit, { pathspec, type SimpleGit } from 'simple-git';
 import type {
   CommitChangesOptions,
   CommitChangesResult,
+  CommitFilesOptions,
   ConstructCommitMessageOptions,
   CreateTagOptions,
   CurrentBranchResult,
+  GetAuthorFirstCommitsResult,
   GetChangesResult,
   GetCommitFilesResult,
   GetCommitOptions,
   GetCommitsResult,
+  GetReachableTagsResult,
   GetRemoteUrlResult,
   GetRepoInfoResult,
   GetStatusResult,
@@ -99,21 +102,27 @@ class GitClient {
   // #region - @getCommits
   /**
    * @description Retrieves the commit history of the git repository.
-   * @returns A promise that resolves to an array of commits or null if no commits are found.
+   * @param options.from The ref to start from (exclusive), e.g. the latest tag.
+   * @param options.to The ref to end at (inclusive), HEAD by default.
+   * @param options.paths Only include commits touching these paths.
+   * @param options.firstParent Only include the commits of the current branch, not the ones of merged branches.
+   * @param options.noMerges Leave out merge commits.
+   * @returns A promise that resolves to an array of commits, empty if no commits are found.
    */
   async getCommits(options?: GetCommitOptions): Promise<GetCommitsResult> {
+    const to = options?.to ?? 'HEAD';
     const log = await this.client.log({
       from: options?.from,
+      to: options?.from ? to : undefined,
+      // Without a start, the end ref is passed as a revision
+      ...(options?.from ? {} : { [to]: null }),
+      symmetric: false,
+      ...(options?.firstParent ? { '--first-parent': null } : {}),
+      ...(options?.noMerges ? { '--no-merges': null } : {}),
+      ...(options?.paths?.length ? { paths: pathspec(...options.paths) } : {}),
     });
-    if (!log.all || log.all.length === 0) {
-      throw new OrbitItError({
-        message: 'No commits found',
-        content: [
-          {
-            message: 'Please make some commits to the repository.',
-          },
-        ],
-      });
+    if (!log.all) {
+      return [];
     }
     return log.all.map((commit) => ({
       ...commit,
@@ -142,6 +151,32 @@ class GitClient {
   }
   // #endregion - @getCommitFiles
 
+  // #region - @getAuthorFirstCommits
+  /**
+   * @description Gets the first commit of every author in the full history of the repository.
+   * @returns A promise that resolves to the hash of the first commit by author email.
+   */
+  async getAuthorFirstCommits(): Promise<GetAuthorFirstCommitsResult> {
+    const logOutput = await this.client.raw([
+      'log',
+      '--reverse',
+      '--format=%H %ae',
+    ]);
+
+    const firstCommits = new Map<string, string>();
+
+    for (const line of logOutput.split('\n')) {
+      const [hash, email] = line.trim().split(' ');
+
+      if (hash && email && !firstCommits.has(email)) {
+        firstCommits.set(email, hash);
+      }
+    }
+
+    return firstCommits;
+  }
+  // #endregion - @getAuthorFirstCommits
+
   // #region - @getRepoInfo
   /**
    * @description Retrieves the owner and repository name from the remote URL.
@@ -250,6 +285,59 @@ class GitClient {
   }
   // #endregion - @commitChanges
 
+  // #region - @commitFiles
+  /**
+   * @description Stages and commits the given files with a raw commit message, including their deletions.
+   * Files that were neither committed nor left on disk are skipped, since git has nothing to stage for them,
+   * and so are the untracked files ignored by the repository.
+   * @param message The full commit message.
+   * @param files The paths of the files to commit.
+   * @returns A promise that resolves to the commit result.
+   */
+  async commitFiles({
+    message,
+    files,
+  }: CommitFilesOptions): Promise<CommitChangesResult> {
+    const knownFiles = await this.client.raw([
+      'ls-files',
+      '--cached',
+      '--others',
+      '--exclude-standard',
+      '--',
+      ...files,
+    ]);
+    const stagedFiles = files.filter((file) =>
+      knownFiles.split('\n').includes(file)
+    );
+
+    // Without pathspecs, git would commit everything already staged
+    if (stagedFiles.length === 0) {
+      throw new OrbitItError({
+        message: 'No files to commit',
+        content: [
+          {
+            message: 'None of the planned files are known to git.',
+          },
+        ],
+      });
+    }
+
+    await this.client.raw(['add', '-A', '--', ...stagedFiles]);
+    const commit = await this.client.commit(message, stagedFiles);
+    if (!commit.commit) {
+      throw new OrbitItError({
+        message: 'Commit failed or no commit data returned',
+        content: [
+          {
+            message: 'Please check your git configuration and try again.',
+          },
+        ],
+      });
+    }
+    return commit;
+  }
+  // #endregion - @commitFiles
+
   // #region - @pushChanges
   /**
    * @description Pushes the committed changes to the remote repository.
@@ -271,19 +359,33 @@ class GitClient {
   }
   // #endregion - @getTags
 
+  // #region - @getReachableTags
+  /**
+   * @description Lists the tags reachable from a ref, including the tags of merged branches.
+   * @param ref The ref to start from, HEAD by default.
+   * @returns A promise that resolves to the reachable tags.
+   */
+  async getReachableTags(ref = 'HEAD'): Promise<GetReachableTagsResult> {
+    const tagOutput = await this.client.raw(['tag', '--merged', ref]);
+
+    return tagOutput.split('\n').filter(Boolean);
+  }
+  // #endregion - @getReachableTags
+
   // #region - @createTag
   /**
    * @description Creates a tag in the git repository.
    * @param tagName The name of the tag to create.
    * @param message The message associated with the tag (optional).
+   * @param ref The commit to tag, HEAD by default (optional).
    * @returns A promise that resolves to a FunctionResult indicating success or failure.
    */
   async createTag(options: CreateTagOptions): Promise<void> {
-    const { tagName, tagMessage } = options;
+    const { tagName, tagMessage, ref = 'HEAD' } = options;
     if (tagMessage) {
-      await this.client.addAnnotatedTag(tagName, tagMessage);
+      await this.client.raw(['tag', '-a', tagName, '-m', tagMessage, ref]);
     } else {
-      await this.client.addTag(tagName);
+      await this.client.raw(['tag', tagName, ref]);
     }
   }
   // #endregion - @createTag
@@ -291,13 +393,78 @@ class GitClient {
   // #region - @pushTags
   /**
    * @description Pushes tags to the remote repository.
+   * @param tagNames The tags to push (optional). All tags are pushed when omitted.
    * @returns A promise that resolves to a FunctionResult indicating success or failure.
    */
-  async pushTags(): Promise<void> {
-    await this.client.pushTags();
+  async pushTags(tagNames?: string[]): Promise<void> {
+    if (!tagNames) {
+      await this.client.pushTags();
+      return;
+    }
+    await this.client.raw([
+      'push',
+      'origin',
+      ...tagNames.map((tagName) => `refs/tags/${tagName}`),
+    ]);
   }
   // #endregion - @pushTags
 
+  // #region - @deleteTag
+  /**
+   * @description Deletes a local tag.
+   * @param tagName The name of the tag to delete.
+   */
+  async deleteTag(tagName: string): Promise<void> {
+    await this.client.tag(['-d', tagName]);
+  }
+  // #endregion - @deleteTag
+
+  // #region - @deleteRemoteTags
+  /**
+   * @description Deletes tags from the remote repository.
+   * @param tagNames The names of the tags to delete.
+   */
+  async deleteRemoteTags(tagNames: string[]): Promise<void> {
+    await this.client.raw([
+      'push',
+      'origin',
+      '--delete',
+      ...tagNames.map((tagName) => `refs/tags/${tagName}`),
+    ]);
+  }
+  // #endregion - @deleteRemoteTags
+
+  // #region - @getHeadCommit
+  /**
+   * @description Retrieves the hash of the commit currently checked out.
+   * @returns A promise that resolves to the full commit hash.
+   */
+  async getHeadCommit(): Promise<string> {
+    return (await this.client.revparse(['HEAD'])).trim();
+  }
+  // #endregion - @getHeadCommit
+
+  // #region - @resolveCommit
+  /**
+   * @description Resolves a ref, e.g. a tag or a branch, to the hash of its commit.
+   * @param ref The ref to resolve.
+   * @returns A promise that resolves to the full commit hash.
+   */
+  async resolveCommit(ref: string): Promise<string> {
+    return (await this.client.revparse([`${ref}^{commit}`])).trim();
+  }
+  // #endregion - @resolveCommit
+
+  // #region - @resetToCommit
+  /**
+   * @description Moves the current branch back to a commit and unstages its changes, keeping the working tree as is.
+   * @param commitHash The hash of the commit to reset to.
+   */
+  async resetToCommit(commitHash: string): Promise<void> {
+    await this.client.reset(['--mixed', commitHash]);
+  }
+  // #endregion - @resetToCommit
+
   // #region - @createBranch
   /**
    * @description Creates and checks out a new branch.
@@ -309,14 +476,26 @@ class GitClient {
   }
   // #endregion - @createBranch
 
+  // #region - @checkoutBranch
+  /**
+   * @description Checks out a branch, keeping the changes of the working tree.
+   * @param branchName The name of the branch to check out.
+   * @param reset Whether the branch is created, or reset if it exists, at the current commit.
+   */
+  async checkoutBranch(branchName: string, reset = false): Promise<void> {
+    await this.client.checkout(reset ? ['-B', branchName] : [branchName]);
+  }
+  // #endregion - @checkoutBranch
+
   // #region - @pushBranch
   /**
    * @description Pushes a branch to the remote repository.
    * @param branchName The name of the branch to push.
+   * @param force Whether the remote branch is overwritten, e.g. for a branch owned by orbit-it.
    * @returns {FunctionResultPromise} A promise that resolves to a FunctionResult indicating success or failure.
    */
-  async pushBranch(branchName: string): Promise<void> {
-    await this.client.push('origin', branchName);
+  async pushBranch(branchName: string, force = false): Promise<void> {
+    await this.client.push('origin', branchName, force ? ['--force'] : []);
   }
   // #endregion - @pushBranch
 
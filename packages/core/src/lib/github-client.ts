@@ -8,15 +8,26 @@ import { Octokit } from '@octokit/rest';
 import { OrbitItError } from '@utils/errors';
 import type {
   CheckRepoExistsResult,
+  CreatePullRequestOptions,
+  CreatePullRequestResult,
   CreateReleaseOptions,
   CreateReleaseResult,
+  FindPullRequestOptions,
+  FindPullRequestResult,
+  GenerateReleaseNotesOptions,
+  GenerateReleaseNotesResult,
+  GetAuthorLoginOptions,
+  GetAuthorLoginResult,
   GetRepoInfoResult,
   GetUserInfoResult,
   ListReleasesResult,
+  UpdatePullRequestOptions,
+  UpdatePullRequestResult,
 } from '@/types/github-client';
 
 export class GitHubClient {
   private client: Octokit | null = null;
+  private authorLogins = new Map<string, GetAuthorLoginResult>();
 
   constructor(token: string) {
     this.init(token);
@@ -140,6 +151,44 @@ export class GitHubClient {
   }
   // #endregion - @createRelease
 
+  // #region - @generateReleaseNotes
+  /**
+   * @description Generates release notes from the pull requests merged since the previous tag,
+   * grouped with the categories of the release configuration of the repository.
+   * @param options - The options for generating the release notes.
+   * @see {@link GenerateReleaseNotesOptions}
+   * @returns A promise that resolves to the Markdown body of the release notes.
+   */
+  async generateReleaseNotes({
+    owner,
+    repo,
+    tagName,
+    targetCommitish,
+    previousTagName,
+    configurationFilePath,
+  }: GenerateReleaseNotesOptions): Promise<GenerateReleaseNotesResult> {
+    if (!this.client) {
+      throw new OrbitItError({
+        message: 'GitHub client is not initialized',
+        content: [
+          {
+            message: 'Please ensure a valid GITHUB_TOKEN is provided.',
+          },
+        ],
+      });
+    }
+    const response = await this.client.repos.generateReleaseNotes({
+      owner,
+      repo,
+      tag_name: tagName,
+      target_commitish: targetCommitish,
+      previous_tag_name: previousTagName,
+      configuration_file_path: configurationFilePath,
+    });
+    return response.data.body;
+  }
+  // #endregion - @generateReleaseNotes
+
   // #region - @listReleases
   /**
    * @description Lists releases for a repository.
@@ -197,6 +246,162 @@ export class GitHubClient {
   }
   // #endregion - @deleteRelease
 
+  // #region - @getAuthorLogin
+  /**
+   * @description Resolves the GitHub login of a commit author. Results are cached per email.
+   * @param options - The options for resolving the login.
+   * @see {@link GetAuthorLoginOptions}
+   * @returns A promise that resolves to the login, or null if the email isn't linked to an account.
+   */
+  async getAuthorLogin({
+    owner,
+    repo,
+    email,
+    sha,
+  }: GetAuthorLoginOptions): Promise<GetAuthorLoginResult> {
+    if (!this.client) {
+      throw new OrbitItError({
+        message: 'GitHub client is not initialized',
+        content: [
+          {
+            message: 'Please ensure a valid GITHUB_TOKEN is provided.',
+          },
+        ],
+      });
+    }
+
+    if (this.authorLogins.has(email)) {
+      return this.authorLogins.get(email);
+    }
+
+    try {
+      const response = await this.client.repos.getCommit({
+        owner,
+        repo,
+        ref: sha,
+      });
+      const login = response.data.author?.login ?? null;
+
+      this.authorLogins.set(email, login);
+      return login;
+    } catch {
+      // Commits that aren't pushed can't be looked up, another commit of the author may be
+      return null;
+    }
+  }
+  // #endregion - @getAuthorLogin
+
+  // #region - @findPullRequest
+  /**
+   * @description Finds the latest open or merged pull request of a branch.
+   * @param options - The options for finding the pull request.
+   * @see {@link FindPullRequestOptions}
+   * @returns A promise that resolves to the pull request, or null if there is none.
+   */
+  async findPullRequest({
+    owner,
+    repo,
+    head,
+    state,
+  }: FindPullRequestOptions): Promise<FindPullRequestResult> {
+    if (!this.client) {
+      throw new OrbitItError({
+        message: 'GitHub client is not initialized',
+        content: [
+          {
+            message: 'Please ensure a valid GITHUB_TOKEN is provided.',
+          },
+        ],
+      });
+    }
+    const response = await this.client.pulls.list({
+      owner,
+      repo,
+      head: `${owner}:${head}`,
+      state: state === 'open' ? 'open' : 'closed',
+      sort: 'updated',
+      direction: 'desc',
+    });
+    return (
+      response.data.find(
+        (pullRequest) => state === 'open' || pullRequest.merged_at !== null
+      ) ?? null
+    );
+  }
+  // #endregion - @findPullRequest
+
+  // #region - @createPullRequest
+  /**
+   * @description Opens a pull request.
+   * @param options - The options for creating the pull request.
+   * @see {@link CreatePullRequestOptions}
+   * @returns A promise that resolves to the created pull request.
+   */
+  async createPullRequest({
+    owner,
+    repo,
+    head,
+    base,
+    title,
+    body,
+  }: CreatePullRequestOptions): Promise<CreatePullRequestResult> {
+    if (!this.client) {
+      throw new OrbitItError({
+        message: 'GitHub client is not initialized',
+        content: [
+          {
+            message: 'Please ensure a valid GITHUB_TOKEN is provided.',
+          },
+        ],
+      });
+    }
+    const response = await this.client.pulls.create({
+      owner,
+      repo,
+      head,
+      base,
+      title,
+      body,
+    });
+    return response.data;
+  }
+  // #endregion - @createPullRequest
+
+  // #region - @updatePullRequest
+  /**
+   * @description Updates the title and body of a pull request.
+   * @param options - The options for updating the pull request.
+   * @see {@link UpdatePullRequestOptions}
+   * @returns A promise that resolves to the updated pull request.
+   */
+  async updatePullRequest({
+    owner,
+    repo,
+    pullNumber,
+    title,
+    body,
+  }: UpdatePullRequestOptions): Promise<UpdatePullRequestResult> {
+    if (!this.client) {
+      throw new OrbitItError({
+        message: 'GitHub client is not initialized',
+        content: [
+          {
+            message: 'Please ensure a valid GITHUB_TOKEN is provided.',
+          },
+        ],
+      });
+    }
+    const response = await this.client.pulls.update({
+      owner,
+      repo,
+      pull_number: pullNumber,
+      title,
+      body,
+    });
+    return response.data;
+  }
+  // #endregion - @updatePullRequest
+
   // #region - @checkRepoExists
   /**
    * @description Checks if a repository exists.
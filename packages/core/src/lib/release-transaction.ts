@@ -0,0 +1,180 @@
+/**
+ * @name ReleaseTransaction
+ * @file src/lib/release-transaction.ts
+ * @description Class to record the side effects of a release and undo them on failure
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type GitClient from '@lib/git-client';
+import type GitHubClient from '@lib/github-client';
+import { fileExists } from '@utils/files';
+import { runSequentially } from '@utils/promises';
+import type {
+  ReleaseTransactionOptions,
+  ReleaseTransactionStep,
+  RollbackResult,
+} from '@/types/release-transaction';
+
+class ReleaseTransaction {
+  private steps: ReleaseTransactionStep[] = [];
+  private gitClient: GitClient;
+  private githubClient: GitHubClient;
+  private options: ReleaseTransactionOptions;
+
+  constructor(
+    gitClient: GitClient,
+    githubClient: GitHubClient,
+    options: ReleaseTransactionOptions
+  ) {
+    this.gitClient = gitClient;
+    this.githubClient = githubClient;
+    this.options = options;
+  }
+
+  // #region - @hasSteps
+  /**
+   * @description Checks if any side effect was recorded.
+   * @returns True if there is something to roll back.
+   */
+  hasSteps(): boolean {
+    return this.steps.length > 0;
+  }
+  // #endregion - @hasSteps
+
+  // #region - @recordFile
+  /**
+   * @description Saves the content of a file before it is written. Only the first write of a file is recorded.
+   * @param filePath The path of the file about to be written.
+   */
+  async recordFile(filePath: string): Promise<void> {
+    const fullPath = path.resolve(filePath);
+
+    const isRecorded = this.steps.some(
+      (step) => step.type === 'file' && step.filePath === fullPath
+    );
+
+    if (isRecorded) {
+      return;
+    }
+
+    const previousContent = fileExists(fullPath)
+      ? await fs.promises.readFile(fullPath, { encoding: 'utf8' })
+      : null;
+
+    this.steps.push({ type: 'file', filePath: fullPath, previousContent });
+  }
+  // #endregion - @recordFile
+
+  // #region - @record
+  /**
+   * @description Records a git or GitHub side effect.
+   * @param step The side effect that was performed.
+   */
+  record(step: Exclude<ReleaseTransactionStep, { type: 'file' }>): void {
+    this.steps.push(step);
+  }
+  // #endregion - @record
+
+  // #region - @rollback
+  /**
+   * @description Undoes the recorded side effects in reverse order. A failing step does not stop the rollback.
+   * @returns What was rolled back and what could not be.
+   */
+  async rollback(): Promise<RollbackResult> {
+    const result: RollbackResult = { rolledBack: [], failed: [] };
+
+    await runSequentially([...this.steps].reverse(), async (step) => {
+      const description = this.describe(step);
+
+      try {
+        const isUndone = await this.undo(step);
+
+        if (isUndone) {
+          result.rolledBack.push(description);
+        } else {
+          result.failed.push(description);
+        }
+      } catch (error) {
+        const reason = error instanceof Error ? `: ${error.message}` : '';
+        result.failed.push(`${description}${reason}`);
+      }
+    });
+
+    this.steps = [];
+
+    return result;
+  }
+  // #endregion - @rollback
+
+  // #region - @undo
+  /**
+   * @description Undoes a single side effect.
+   * @param step The side effect to undo.
+   * @returns False if the side effect can't be undone automatically.
+   */
+  private async undo(step: ReleaseTransactionStep): Promise<boolean> {
+    switch (step.type) {
+      case 'file':
+        if (step.previousContent === null) {
+          await fs.promises.rm(step.filePath, { force: true });
+        } else {
+          await fs.promises.writeFile(step.filePath, step.previousContent, {
+            encoding: 'utf8',
+          });
+        }
+        return true;
+      case 'commit':
+        await this.gitClient.resetToCommit(step.previousCommit);
+        return true;
+      case 'checkout':
+        await this.gitClient.checkoutBranch(step.previousBranch);
+        return true;
+      case 'tag':
+        await this.gitClient.deleteTag(step.tagName);
+        return true;
+      case 'push-tags':
+        await this.gitClient.deleteRemoteTags(step.tagNames);
+        return true;
+      case 'release':
+        await this.githubClient.deleteRelease(
+          this.options.owner,
+          this.options.repo,
+          step.releaseId
+        );
+        return true;
+      default:
+        // A pushed branch can't be rewound without force pushing
+        return false;
+    }
+  }
+  // #endregion - @undo
+
+  // #region - @describe
+  /**
+   * @description Describes a side effect for the rollback report.
+   * @param step The side effect to describe.
+   * @returns A human-readable description.
+   */
+  private describe(step: ReleaseTransactionStep): string {
+    switch (step.type) {
+      case 'file':
+        return `Restored ${path.relative(process.cwd(), step.filePath)}`;
+      case 'commit':
+        return `Reset the release commit to ${step.previousCommit.slice(0, 7)}`;
+      case 'checkout':
+        return `Checked out ${step.previousBranch} again`;
+      case 'tag':
+        return `Deleted local tag ${step.tagName}`;
+      case 'push-tags':
+        return `Deleted remote tags ${step.tagNames.join(', ')}`;
+      case 'release':
+        return `Deleted GitHub release ${step.tagName}`;
+      default:
+        return `Pushed branch ${step.branchName} (revert the release commit manually)`;
+    }
+  }
+  // #endregion - @describe
+}
+
+export default ReleaseTransaction;
@@ -0,0 +1,171 @@
+import path from 'node:path';
+import type { Config } from '@services/config-service';
+import {
+  changeFilesDirectory,
+  createChangeFileName,
+  formatChangeFile,
+  parseChangeFile,
+} from '@utils/change-files';
+import { OrbitItError } from '@utils/errors';
+import { readMdFile, writeMdFile } from '@utils/files';
+import { findWorkspacePackages } from '@utils/workspaces';
+import fg from 'fast-glob';
+import type { ChangeFile } from '@/types/change-files';
+import type { FunctionResult } from '@/types/functions';
+
+export interface ChangeServiceOptions {
+  config: Config;
+}
+
+class ChangeService {
+  private config: Config;
+
+  constructor({ config }: ChangeServiceOptions) {
+    this.config = config;
+  }
+
+  // #region - @getPackageNames
+  /**
+   * @description Lists the packages a change can apply to: the workspace packages, or the project itself without workspaces.
+   * @returns The names of the packages.
+   */
+  async getPackageNames(): Promise<FunctionResult<string[]>> {
+    let error: OrbitItError | undefined;
+    let data: string[] | undefined;
+
+    try {
+      const workspacePackages = await findWorkspacePackages(
+        this.config.project.workspaces ?? []
+      );
+
+      data =
+        workspacePackages.length > 0
+          ? workspacePackages.map(({ name }) => name)
+          : [path.basename(process.cwd())];
+    } catch (foundError) {
+      if (foundError instanceof OrbitItError) {
+        error = foundError;
+      } else if (foundError instanceof Error) {
+        error = new OrbitItError({
+          message: foundError.message,
+          content: [{ message: 'Failed to list the workspace packages.' }],
+        });
+      }
+    }
+
+    return {
+      error,
+      data,
+    };
+  }
+  // #endregion - @getPackageNames
+
+  // #region - @create
+  /**
+   * @description Writes a change file under `.orbit-it/changes/`.
+   * @param bumps The bump of each changed package.
+   * @param summary The user-facing description of the change.
+   * @returns The path of the change file.
+   */
+  async create({
+    bumps,
+    summary,
+  }: Pick<ChangeFile, 'bumps' | 'summary'>): Promise<FunctionResult<string>> {
+    let error: OrbitItError | undefined;
+    let data: string | undefined;
+
+    try {
+      if (Object.keys(bumps).length === 0 || summary.trim() === '') {
+        throw new OrbitItError({
+          message: 'Invalid change',
+          content: [
+            { message: 'A change needs at least one package and a summary.' },
+          ],
+        });
+      }
+
+      const filePath = path.join(
+        changeFilesDirectory,
+        createChangeFileName(summary)
+      );
+
+      await writeMdFile(filePath, formatChangeFile({ bumps, summary }));
+
+      data = filePath;
+    } catch (foundError) {
+      if (foundError instanceof OrbitItError) {
+        error = foundError;
+      } else if (foundError instanceof Error) {
+        error = new OrbitItError({
+          message: foundError.message,
+          content: [{ message: 'Failed to write the change file.' }],
+        });
+      }
+    }
+
+    return {
+      error,
+      data,
+    };
+  }
+  // #endregion - @create
+
+  // #region - @list
+  /**
+   * @description Reads the pending change files.
+   * @returns The changes, sorted by path.
+   */
+  async list(): Promise<FunctionResult<ChangeFile[]>> {
+    let error: OrbitItError | undefined;
+    let data: ChangeFile[] | undefined;
+
+    try {
+      const filePaths = await fg(`${changeFilesDirectory}/*.md`, {
+        cwd: process.cwd(),
+        dot: true,
+        onlyFiles: true,
+      });
+
+      const changeFiles = await Promise.all(
+        filePaths.sort().map(async (filePath) => ({
+          filePath,
+          changeFile: parseChangeFile(filePath, await readMdFile(filePath)),
+        }))
+      );
+
+      const invalidFiles = changeFiles.filter(
+        ({ changeFile }) => changeFile === null
+      );
+
+      if (invalidFiles.length > 0) {
+        throw new OrbitItError({
+          message: 'Invalid change files',
+          content: invalidFiles.map(({ filePath }) => ({
+            message:
+              'Expected a frontmatter of `"package": major | minor | patch` lines',
+            target: filePath,
+          })),
+        });
+      }
+
+      data = changeFiles.map(({ changeFile }) => changeFile);
+    } catch (foundError) {
+      if (foundError instanceof OrbitItError) {
+        error = foundError;
+      } else if (foundError instanceof Error) {
+        error = new OrbitItError({
+          message: foundError.message,
+          content: [{ message: 'Failed to read the change files.' }],
+        });
+      }
+    }
+
+    return {
+      error,
+      data,
+    };
+  }
+  // #endregion - @list
+}
+
+export default ChangeService;
@@ -1,7 +1,13 @@
 import { configSchema } from '@schemas/config-schema';
 import { OrbitItError } from '@utils/errors';
-import { readJsonFile, writeJsonFile, writeYmlFile } from '@utils/files';
+import {
+  readJsonFile,
+  readMdFile,
+  writeJsonFile,
+  writeYmlFile,
+} from '@utils/files';
 import { ignorePaths } from '@utils/paths';
+import { releaseNotesTemplateShape, validateTemplate } from '@utils/templates';
 import fg from 'fast-glob';
 import type z from 'zod';
 import type { FunctionResult } from '@/types/functions';
@@ -111,6 +117,14 @@ class ConfigService {
         });
       }
 
+      const validatedTemplate = await this.validateReleaseNotesTemplate(
+        parsedConfig.data
+      );
+
+      if (validatedTemplate.error) {
+        throw validatedTemplate.error;
+      }
+
       // Save the loaded configuration
       this.config = data;
 
@@ -133,6 +147,57 @@ class ConfigService {
     };
   }
 
+  /**
+   * @description Validate the release notes template of the configuration, if any
+   * @param config The parsed configuration
+   * @returns An error if the template can't be read or is invalid
+   */
+  private async validateReleaseNotesTemplate(
+    config: Config
+  ): Promise<FunctionResult<void>> {
+    const templatePath = config.release.notes?.template;
+
+    if (!templatePath) {
+      return { error: undefined, data: undefined };
+    }
+
+    let source: string;
+
+    try {
+      source = await readMdFile(templatePath);
+    } catch {
+      return {
+        error: new OrbitItError({
+          message: 'Release notes template not found',
+          content: [
+            {
+              message: `Could not read ${templatePath}`,
+              target: 'release.notes.template',
+            },
+          ],
+        }),
+        data: undefined,
+      };
+    }
+
+    const templateErrors = validateTemplate(source, releaseNotesTemplateShape);
+
+    if (templateErrors.length > 0) {
+      return {
+        error: new OrbitItError({
+          message: 'Invalid release notes template',
+          content: templateErrors.map((message) => ({
+            message,
+            target: 'release.notes.template',
+          })),
+        }),
+        data: undefined,
+      };
+    }
+
+    return { error: undefined, data: undefined };
+  }
+
   /**
    * @description Setup the configuration
    * @param config The configuration to setup
@@ -219,9 +284,14 @@ on:
 jobs:
   release:
     runs-on: ubuntu-latest
+    permissions:
+      contents: write
+      pull-requests: write
     steps:
       - name: Checkout code
         uses: actions/checkout@v4
+        with:
+          fetch-depth: 0
 
       - name: Setup PNPM
         uses: pnpm/action-setup@v4
@@ -243,7 +313,9 @@ jobs:
         run: pnpm run build
 
       - name: Create release
-        run: pnpm dlx orbit-it release
+        run: pnpm dlx orbit-it release --ci
+        env:
+          GITHUB_TOKEN: \${{ secrets.GITHUB_TOKEN }}
 `;
 
     return content;
@@ -75,17 +75,6 @@ class EnvService {
         ignore: ignorePaths,
       });
 
-      if (entries.length === 0) {
-        throw new OrbitItError({
-          message: 'No .env file found',
-          content: [
-            {
-              message: 'Please create a .env file in the root directory.',
-            },
-          ],
-        });
-      }
-
       if (entries.length > 1) {
         throw new OrbitItError({
           message: 'Multiple .env files found',
@@ -98,9 +87,10 @@ class EnvService {
         });
       }
 
-      const envFilePath = entries[0];
-
-      process.loadEnvFile(envFilePath);
+      // Without a .env file (e.g. in CI) the variables come from the process environment
+      if (entries.length === 1) {
+        process.loadEnvFile(entries[0]);
+      }
 
       // Validate environment variables
       const parsedEnv = envSchema.safeParse(process.env);
@@ -0,0 +1,116 @@
+import GitClient from '@lib/git-client';
+import type { Config } from '@services/config-service';
+import { defaultCalverFormat } from '@utils/calver';
+import { OrbitItError } from '@utils/errors';
+import { writeMdFile } from '@utils/files';
+import { formatManifest, manifestFilePath } from '@utils/manifest';
+import { findLatestTag, getDefaultTagFormat, parseTag } from '@utils/tags';
+import { findPackageGroups, findWorkspacePackages } from '@utils/workspaces';
+import type { FunctionResult } from '@/types/functions';
+import type { ManifestEntry, VersionsManifest } from '@/types/manifest';
+
+export interface ManifestServiceOptions {
+  config: Config;
+  gitClient?: GitClient;
+}
+
+class ManifestService {
+  private config: Config;
+  private gitClient: GitClient;
+
+  constructor({ config, gitClient }: ManifestServiceOptions) {
+    this.config = config;
+    this.gitClient = gitClient || new GitClient();
+  }
+
+  // #region - @bootstrap
+  /**
+   * @description Rebuilds the versions manifest from the tags reachable from HEAD.
+   * Packages that were never released keep the version of their package manifest, or `project.version` in fixed versioning.
+   * @param dryRun Whether the manifest is only returned, without writing it.
+   * @returns The rebuilt manifest.
+   */
+  async bootstrap({
+    dryRun = false,
+  }: {
+    dryRun?: boolean;
+  } = {}): Promise<FunctionResult<VersionsManifest>> {
+    let error: OrbitItError | undefined;
+    let data: VersionsManifest | undefined;
+
+    try {
+      const template =
+        this.config.release.tagFormat ??
+        getDefaultTagFormat(this.config.release.versioningStrategy);
+      const calverFormat =
+        this.config.release.versionScheme === 'calver'
+          ? (this.config.release.calverFormat ?? defaultCalverFormat)
+          : undefined;
+      const tags = await this.gitClient.getReachableTags();
+
+      const getEntry = (
+        releaseName: string,
+        version: string
+      ): ManifestEntry => {
+        const tag = findLatestTag(
+          template,
+          tags,
+          releaseName,
+          false,
+          calverFormat
+        );
+
+        return tag
+          ? { version: parseTag(template, tag, releaseName, calverFormat), tag }
+          : { version, tag: null };
+      };
+
+      if (this.config.release.versioningStrategy === 'fixed') {
+        const { repo } = await this.gitClient.getRepoInfo();
+
+        data = {
+          packages: { [repo]: getEntry(repo, this.config.project.version) },
+        };
+      } else {
+        const workspacePackages = await findWorkspacePackages(
+          this.config.project.workspaces ?? []
+        );
+        const packageGroups = await findPackageGroups(
+          this.config.release.groups ?? [],
+          workspacePackages
+        );
+
+        // The members of a group are tagged with the name of the group
+        data = {
+          packages: Object.fromEntries(
+            workspacePackages.map(({ name, version }) => [
+              name,
+              getEntry(packageGroups.get(name) ?? name, version),
+            ])
+          ),
+        };
+      }
+
+      if (!dryRun) {
+        await writeMdFile(manifestFilePath, formatManifest(data));
+      }
+    } catch (foundError) {
+      if (foundError instanceof OrbitItError) {
+        error = foundError;
+      } else if (foundError instanceof Error) {
+        error = new OrbitItError({
+          message: foundError.message,
+          content: [{ message: 'Failed to bootstrap the versions manifest.' }],
+        });
+      }
+    }
+
+    return {
+      error,
+      data,
+    };
+  }
+  // #endregion - @bootstrap
+}
+
+export default ManifestService;
@@ -1,19 +1,128 @@
+import fs from 'node:fs';
 import path from 'node:path';
+import FileChangeSet from '@lib/file-change-set';
 import GitClient from '@lib/git-client';
 import GitHubClient from '@lib/github-client';
+import ReleaseTransaction from '@lib/release-transaction';
+import WorkspaceGraph from '@lib/workspace-graph';
+import ChangeService from '@services/change-service';
 import type { Config } from '@services/config-service';
+import { defaultCalverFormat, incrementCalver } from '@utils/calver';
+import { changeBumps, getHighestChangeBump } from '@utils/change-files';
+import {
+  changelogFileName,
+  formatChangelogSection,
+  prependChangelogSection,
+} from '@utils/changelog';
+import {
+  applyPullRequestTitles,
+  cancelRevertedCommits,
+  parseCommit,
+  resolveCommitConvention,
+  resolveCommitTypes,
+} from '@utils/commits';
 import { OrbitItError } from '@utils/errors';
-import { readJsonFile, writeJsonFile } from '@utils/files';
+import { fileExists, readMdFile, removeFile, writeMdFile } from '@utils/files';
+import {
+  getCommitUrl,
+  getCompareUrl,
+  getRepositoryUrl,
+  linkCommit,
+  linkIssue,
+  linkPullRequests,
+} from '@utils/links';
+import {
+  formatManifest,
+  manifestFilePath,
+  parseManifest,
+  updateManifest,
+} from '@utils/manifest';
 import { ignorePaths } from '@utils/paths';
+import { runSequentially } from '@utils/promises';
+import {
+  appendPullRequestMetadata,
+  readPullRequestMetadata,
+  releasePullRequestBranch,
+} from '@utils/pull-requests';
+import { findLatestTag, formatTag, getDefaultTagFormat } from '@utils/tags';
+import { renderTemplate } from '@utils/templates';
+import {
+  compareVersions,
+  dependencySections,
+  rewriteDependencyRange,
+} from '@utils/versions';
+import { findPackageGroups, findWorkspacePackages } from '@utils/workspaces';
 import fg from 'fast-glob';
 import semver from 'semver';
+import type { ChangeBump, ChangeFile } from '@/types/change-files';
+import type {
+  CommitConvention,
+  ParsedCommit,
+  ResolvedCommitType,
+} from '@/types/commits';
+import type { FileChange } from '@/types/file-change-set';
 import type { FunctionResult } from '@/types/functions';
-import type { Commit, CommitType } from '@/types/git-client';
-
-const commitMessageRegex =
-  /^(feat|fix|docs|style|refactor|perf|test|chore)(\([^)]*\))?:/;
-
-export type ReleaseType = 'major' | 'minor' | 'patch' | 'prerelease';
+import type { Commit } from '@/types/git-client';
+import type { VersionsManifest } from '@/types/manifest';
+import type {
+  ReleaseNotesContext,
+  ReleaseNotesContributor,
+} from '@/types/templates';
+import type { WorkspacePackage } from '@/types/workspace-graph';
+
+const pyprojectVersionRegex = /^version\s*=\s*["'].*?["']/m;
+const setupPyVersionRegex = /version\s*=\s*["'].*?["']/g;
+const pythonInitVersionRegex = /^__version__\s*=\s*["'].*?["']/m;
+const closingTokenRegex = /^(close[sd]?|fix(e[sd])?|resolve[sd]?)$/i;
+const issueReferenceRegex = /(?:[\w.-]+\/[\w.-]+)?#\d+/g;
+
+/**
+ * @description The bump to apply. The `pre*` types use the prerelease identifier and
+ * `graduate` turns a prerelease into its stable version (`1.2.0-beta.4` → `1.2.0`).
+ */
+export type ReleaseType =
+  | 'major'
+  | 'minor'
+  | 'patch'
+  | 'premajor'
+  | 'preminor'
+  | 'prepatch'
+  | 'prerelease'
+  | 'graduate';
+
+/**
+ * @description The release types from the lowest to the highest. A lockstep group is released with the highest type of its members,
+ * so the whole group is a prerelease as soon as one of its members is.
+ */
+const releaseTypeOrder: ReleaseType[] = [
+  'patch',
+  'minor',
+  'major',
+  'prerelease',
+  'prepatch',
+  'preminor',
+  'premajor',
+  'graduate',
+];
+
+/**
+ * @description The prerelease counterparts of the stable bumps, applied to the dependents of a prerelease.
+ */
+const prereleaseBumps: Record<ChangeBump, ReleaseType> = {
+  major: 'premajor',
+  minor: 'preminor',
+  patch: 'prepatch',
+};
+
+/**
+ * @description The bump applied by a release and the commits and change files that decided it.
+ * A `null` type means there is nothing to release.
+ */
+export interface ReleaseBump {
+  type: ReleaseType | null;
+  commits: Commit[];
+  changeFiles: ChangeFile[]; // consumed by the release, whatever the bump
+}
 
 export interface ReleaseServiceOptions {
   config: Config;
@@ -22,16 +131,81 @@ export interface ReleaseServiceOptions {
 
 export interface ReleaseOptions {
   release: {
-    type: ReleaseType;
+    type?: ReleaseType;
+    preid?: string; // overrides `release.preReleaseIdentifier`
     draft?: boolean;
+    from?: string; // overrides the previous release as start of the commit range
+    to?: string; // the end of the commit range, HEAD by default
   };
   dryRun?: boolean;
 }
 
-export interface ReleaseResult {
+/**
+ * @description The outcome of releasing a single package (or the whole project in fixed mode).
+ */
+export interface PackageReleaseResult {
+  name: string;
+  previousTag?: string; // undefined on the first release
+  previousVersion: string;
   version: string;
   tagName: string;
   releaseNotes: string;
+  bump: ReleaseBump;
+}
+
+/**
+ * @description A GitHub release the plan would create.
+ */
+export interface ReleasePlanGitHubRelease {
+  tagName: string;
+  releaseName: string;
+  body: string;
+  prerelease: boolean;
+  draft: boolean;
+}
+
+/**
+ * @description The release pull request the plan would open or update, in the `pr` mode.
+ */
+export interface ReleasePlanPullRequest {
+  branch: string;
+  base: string;
+  title: string;
+  body: string;
+}
+
+/**
+ * @description Every side effect of a release, computed before anything is written.
+ * A dry run returns it as is, a real run executes it.
+ */
+export interface ReleasePlan {
+  releases: PackageReleaseResult[];
+  files: FileChange[];
+  commitMessage: string | null; // null when no file changes
+  tags: string[];
+  tagTarget: string | null; // the ref the tags point to without a release commit, null for HEAD
+  branch: string;
+  githubReleases: ReleasePlanGitHubRelease[];
+  pullRequest: ReleasePlanPullRequest | null; // the files are committed to it instead of the branch
+}
+
+/**
+ * @description The outcome of a release run. An empty list means there was nothing to release.
+ */
+export interface ReleaseResult {
+  releases: PackageReleaseResult[];
+  plan: ReleasePlan | null;
+  dryRun: boolean;
+}
+
+/**
+ * @description A workspace package with the commits that touched it since its own latest tag
+ * and the change files naming it.
+ */
+interface ChangedWorkspacePackage extends WorkspacePackage {
+  previousTag?: string;
+  commits: Commit[];
+  changeFiles: ChangeFile[]; // narrowed to the bump of the package
 }
 
 class ReleaseService {
@@ -43,9 +217,19 @@ class ReleaseService {
   private config: Config;
   private gitClient: GitClient | null = null;
   private githubClient: GitHubClient | null = null;
+  private transaction: ReleaseTransaction | null = null;
+  private commitTypes: ResolvedCommitType[];
+  private commitConvention: CommitConvention;
+  private authorFirstCommits: Map<string, string> | null = null;
+  private releaseNotesTemplate: string | null = null;
+  private packageGroups = new Map<string, string>(); // package name → lockstep group name
 
   constructor(token: string, { config, gitClient }: ReleaseServiceOptions) {
     this.config = config;
+    this.commitTypes = resolveCommitTypes(config.release.commitTypes);
+    this.commitConvention = resolveCommitConvention(
+      config.release.commitConvention
+    );
     this.gitClient = gitClient || new GitClient();
     this.githubClient = new GitHubClient(token);
   }
@@ -78,25 +262,35 @@ class ReleaseService {
       const repoInfo = await this.gitClient.getRepoInfo();
       this.repoInfo = { owner: repoInfo.owner, repo: repoInfo.repo };
 
-      // if the versioning strategy is fixed means all the packages/apps have the same version
-      if (this.config.release.versioningStrategy === 'fixed') {
-        const releaseResult = await this.versionStrategyFixedRelease(options);
+      // Every side effect from here on is recorded so it can be undone on failure
+      this.transaction = new ReleaseTransaction(
+        this.gitClient,
+        this.githubClient,
+        this.repoInfo
+      );
 
-        if (releaseResult.error || !releaseResult.data) {
-          throw releaseResult.error;
-        }
+      // A merged release pull request is published before preparing the next one
+      const publishedRelease =
+        this.config.release.mode === 'pr'
+          ? await this.publishReleasePullRequest(options)
+          : null;
 
-        data = releaseResult.data;
-      } else {
-        // if the versioning strategy is independent means each package/app can have its own version
-        const releaseResult = await this.versionStrategyIndependentRelease(options);
+      if (publishedRelease) {
+        return { error: undefined, data: publishedRelease };
+      }
 
-        if (releaseResult.error || !releaseResult.data) {
-          throw releaseResult.error;
-        }
+      // fixed means all the packages/apps have the same version,
+      // independent means each package/app can have its own version
+      const releaseResult =
+        this.config.release.versioningStrategy === 'fixed'
+          ? await this.versionStrategyFixedRelease(options)
+          : await this.versionStrategyIndependentRelease(options);
 
-        data = releaseResult.data;
+      if (releaseResult.error || !releaseResult.data) {
+        throw releaseResult.error;
       }
+
+      data = releaseResult.data;
     } catch (foundError) {
       if (foundError instanceof OrbitItError) {
         error = foundError;
@@ -108,6 +302,10 @@ class ReleaseService {
       }
     }
 
+    if (error && this.transaction?.hasSteps()) {
+      error = await this.rollback(error);
+    }
+
     return {
       error,
       data,
@@ -115,6 +313,83 @@ class ReleaseService {
   }
   // #endregion - @execute
 
+  // #region - @rollback
+  /**
+   * @description Undoes the side effects of a failed release and reports them in the error.
+   * The release is only said to be rolled back when every side effect was undone.
+   * @param error The error that made the release fail.
+   * @returns The error extended with what was rolled back and what was not.
+   */
+  private async rollback(error: OrbitItError): Promise<OrbitItError> {
+    const { rolledBack, failed } = await this.transaction.rollback();
+
+    // A pushed branch or a failing undo leaves steps to clean up by hand
+    const rollbackStatus =
+      failed.length > 0
+        ? 'release partially rolled back'
+        : 'release rolled back';
+
+    return new OrbitItError({
+      message: `${error.message} (${rollbackStatus})`,
+      content: [
+        ...(error.content ?? []),
+        ...rolledBack.map((message) => ({ message, target: 'rolled back' })),
+        ...failed.map((message) => ({ message, target: 'not rolled back' })),
+      ],
+    });
+  }
+  // #endregion - @rollback
+
+  // #region - @publishReleasePullRequest
+  /**
+   * @description Tags the merge commit of the latest merged release pull request and creates its GitHub releases,
+   * unless they were already published. The releases are read from the metadata of the pull request.
+   * @param options The release options, only `draft` and `dryRun` are used.
+   * @returns The published releases, or null if there is nothing to publish.
+   */
+  private async publishReleasePullRequest({
+    release,
+    dryRun = false,
+  }: ReleaseOptions): Promise<ReleaseResult | null> {
+    const pullRequest = await this.githubClient.findPullRequest({
+      owner: this.repoInfo.owner,
+      repo: this.repoInfo.repo,
+      head: releasePullRequestBranch,
+      state: 'merged',
+    });
+    const releases = readPullRequestMetadata<PackageReleaseResult[]>(
+      pullRequest?.body ?? null
+    );
+
+    if (!releases) {
+      return null;
+    }
+
+    const tags = await this.gitClient.getTags();
+
+    if (releases.some(({ tagName }) => tags.all.includes(tagName))) {
+      return null;
+    }
+
+    const plan: ReleasePlan = {
+      releases,
+      files: [],
+      commitMessage: null,
+      tags: releases.map(({ tagName }) => tagName),
+      tagTarget: pullRequest.merge_commit_sha,
+      branch: await this.gitClient.getCurrentBranch(),
+      githubReleases: this.getGitHubReleases(releases, release.draft ?? false),
+      pullRequest: null,
+    };
+
+    if (!dryRun) {
+      await this.executeReleasePlan(plan);
+    }
+
+    return { releases, plan, dryRun };
+  }
+  // #endregion - @publishReleasePullRequest
+
   // #region - @versionStrategyFixedRelease
   private async versionStrategyFixedRelease({
     release,
@@ -123,81 +398,87 @@ class ReleaseService {
     let error: OrbitItError | undefined;
     let data: ReleaseResult | undefined;
 
-    const { type, draft = false } = release;
+    const { type, draft = false, from, to } = release;
+    const preid = release.preid ?? this.config.release.preReleaseIdentifier;
 
     try {
-      const currentVersion = this.config.project.version;
+      const name = this.repoInfo.repo;
+
+      // The manifest records the last released version, the config the initial one
+      const manifest = await this.getManifest();
+      const currentVersion =
+        manifest?.packages[name]?.version ?? this.config.project.version;
+
+      const tags = await this.gitClient.getReachableTags(to);
 
-      const tags = await this.gitClient.getTags();
-      const latestTag = tags.latest || undefined; // first release if undefined
+      // A graduation gathers the commits of all its prereleases since the latest stable release
+      // (first release if undefined)
+      const latestTag =
+        from ?? this.getLatestTag(tags, name, type === 'graduate');
 
-      const commits = await this.gitClient.getCommits({ from: latestTag });
+      const commits = await this.getReleaseCommits({ from: latestTag, to });
+      const changeFiles = await this.getChangeFiles();
 
-      if (commits.length === 0) {
+      if (commits.length === 0 && changeFiles.length === 0) {
         throw new OrbitItError({
           message: 'No commits found',
           content: [{ message: 'Please make some changes before releasing.' }],
         });
       }
 
-      const newVersion = semver.inc(currentVersion, type);
-      const tagName = `v${newVersion}`;
-
-      const releaseNotes = this.generateReleaseNotes({ tagName, commits });
-
-      if (dryRun) {
-        // If dryRun is enabled, return the release information without making any changes
-        return {
-          data: {
-            version: newVersion,
-            tagName,
-            releaseNotes,
-          },
-        };
-      }
-
-      const isPrerelease = semver.prerelease(newVersion) !== null;
-
-      if (this.config.project.environment === 'nodejs') {
-        const workspaces = this.config.project.workspaces.map((workspace) =>
-          path.join(workspace, 'package.json')
-        );
+      const bump = this.resolveReleaseBump(type, commits, changeFiles);
 
-        await this.nodeJsBumpPackages(newVersion, workspaces);
+      if (!bump.type) {
+        // Nothing releasable since the latest tag
+        return { data: { releases: [], plan: null, dryRun } };
       }
 
-      if (this.config.project.environment === 'python') {
-        const pythonFiles = this.config.project.workspaces.flatMap((workspace) => [
-          path.join(workspace, 'pyproject.toml'),
-          path.join(workspace, 'setup.py'),
-          path.join(workspace, '__init__.py'),
-        ]);
-
-        await this.pythonBumpPackages(newVersion, pythonFiles);
-      }
+      const newVersion = this.incrementVersion(
+        currentVersion,
+        bump.type,
+        preid
+      );
+      const tagName = this.getTagName(name, newVersion);
 
-      await this.gitClient.createTag({
+      const releaseNotes = await this.generateReleaseNotes({
+        name,
+        version: newVersion,
         tagName,
-        tagMessage: `Release ${tagName}`,
+        previousTag: latestTag,
+        commits,
+        changeFiles,
+        to,
       });
 
-      await this.githubClient.createRelease({
-        body: releaseNotes,
-        releaseName: tagName,
-        owner: this.repoInfo.owner,
-        repo: this.repoInfo.repo,
+      const projectRelease: PackageReleaseResult = {
+        name,
+        previousTag: latestTag,
+        previousVersion: currentVersion,
+        version: newVersion,
         tagName,
-        prerelease: isPrerelease,
+        releaseNotes,
+        bump,
+      };
+
+      const changes = new FileChangeSet();
+      await this.bumpProjectPackages(changes, newVersion);
+      await this.updateChangelogs(changes, [projectRelease]);
+      await this.updateVersionsManifest(changes, [projectRelease]);
+      await this.removeChangeFiles(changes, changeFiles);
+
+      const plan = await this.createReleasePlan({
+        releases: [projectRelease],
+        changes,
         draft,
+        to,
       });
 
-      await this.gitClient.pushTags();
+      // A dry run only returns the plan without making any changes
+      if (!dryRun) {
+        await this.executeReleasePlan(plan);
+      }
 
-      data = {
-        version: newVersion,
-        tagName,
-        releaseNotes,
-      };
+      data = { releases: [projectRelease], plan, dryRun };
     } catch (foundError) {
       if (foundError instanceof OrbitItError) {
         error = foundError;
@@ -224,88 +505,163 @@ class ReleaseService {
     let error: OrbitItError | undefined;
     let data: ReleaseResult | undefined;
 
-    const { type, draft = false } = release;
+    const { type, draft = false, from, to } = release;
+    const preid = release.preid ?? this.config.release.preReleaseIdentifier;
+    const isGraduation = type === 'graduate';
 
     try {
-      // For independent versioning, we need to determine which packages have changes
-      const tags = await this.gitClient.getTags();
-      const latestTag = tags.latest || undefined;
+      // For independent versioning, each package is compared against its own latest tag
+      const tags = await this.gitClient.getReachableTags(to);
 
-      const commits = await this.gitClient.getCommits({ from: latestTag });
-
-      if (commits.length === 0) {
-        throw new OrbitItError({
-          message: 'No commits found',
-          content: [{ message: 'Please make some changes before releasing.' }],
-        });
-      }
+      const workspacePackages = await this.getWorkspacePackages();
+      this.packageGroups = await findPackageGroups(
+        this.config.release.groups ?? [],
+        workspacePackages
+      );
 
-      // Get changed packages by analyzing commit files
-      const changedPackages = await this.getChangedPackages(commits);
+      const changeFiles = await this.getChangeFiles();
+      const changedPackages = await this.getChangedPackages(
+        workspacePackages,
+        tags,
+        changeFiles,
+        { from, to },
+        isGraduation
+      );
 
       if (changedPackages.length === 0) {
-        throw new OrbitItError({
-          message: 'No packages have changes',
-          content: [{ message: 'Please make changes to packages before releasing.' }],
-        });
+        throw isGraduation
+          ? new OrbitItError({
+              message: 'No prereleases to graduate',
+              content: [{ message: 'No package has a prerelease version.' }],
+            })
+          : new OrbitItError({
+              message: 'No packages have changes',
+              content: [
+                {
+                  message: 'Please make changes to packages before releasing.',
+                },
+              ],
+            });
       }
 
-      // For now, just release the first changed package (can be enhanced later)
-      const packageToRelease = changedPackages[0];
-      const currentVersion = packageToRelease.version;
-      const newVersion = semver.inc(currentVersion, type);
-      const tagName = `${packageToRelease.name}@${newVersion}`;
+      const graph = new WorkspaceGraph(workspacePackages);
+      const bumps = this.resolvePackageBumps(type, changedPackages, graph);
 
-      const releaseNotes = this.generateReleaseNotes({ tagName, commits });
+      const plannedReleases: (Omit<PackageReleaseResult, 'releaseNotes'> & {
+        notes: Parameters<ReleaseService['generateReleaseNotes']>[0];
+      })[] = [];
+      const packagesToRelease: WorkspacePackage[] = [];
+      const versions: Record<string, string> = {};
 
-      if (dryRun) {
-        return {
-          data: {
+      // Dependencies are released before the packages depending on them,
+      // and a group is released along with its first member
+      const releaseNames = new Set(
+        graph.sort([...bumps.keys()]).map((name) => this.getReleaseName(name))
+      );
+
+      for (const releaseName of releaseNames) {
+        const {
+          members,
+          previousVersion,
+          commits,
+          changeFiles: memberChangeFiles,
+          bump,
+          previousTag: membersPreviousTag,
+        } = this.getReleaseMembers(
+          releaseName,
+          workspacePackages,
+          changedPackages,
+          bumps
+        );
+        const memberNames = members.map(({ name: memberName }) => memberName);
+        const newVersion = this.incrementVersion(
+          previousVersion,
+          bump.type,
+          preid
+        );
+        const tagName = this.getTagName(releaseName, newVersion);
+
+        Object.assign(
+          versions,
+          Object.fromEntries(
+            memberNames.map((memberName) => [memberName, newVersion])
+          )
+        );
+
+        const dependencies = this.getReleasedDependencies(
+          memberNames,
+          graph,
+          versions
+        );
+
+        // Packages only released as dependents have no commit range
+        const previousTag =
+          membersPreviousTag ?? from ?? this.getLatestTag(tags, releaseName);
+
+        packagesToRelease.push(...members);
+        plannedReleases.push({
+          name: releaseName,
+          previousTag,
+          previousVersion,
+          version: newVersion,
+          tagName,
+          notes: {
+            name: releaseName,
             version: newVersion,
             tagName,
-            releaseNotes,
+            previousTag,
+            commits,
+            changeFiles: memberChangeFiles,
+            dependencies,
+            to,
           },
-        };
+          bump,
+        });
       }
 
-      const isPrerelease = semver.prerelease(newVersion) !== null;
-
-      // Update the specific package version
-      if (this.config.project.environment === 'nodejs') {
-        await this.nodeJsBumpPackages(newVersion, [packageToRelease.packagePath]);
-      }
+      // The versions are resolved in order, the notes of each release don't depend on the others
+      const releases: PackageReleaseResult[] = await Promise.all(
+        plannedReleases.map(async ({ notes, ...plannedRelease }) => ({
+          ...plannedRelease,
+          releaseNotes: await this.generateReleaseNotes(notes),
+        }))
+      );
 
-      if (this.config.project.environment === 'python') {
-        const pythonFiles = [
-          path.join(path.dirname(packageToRelease.packagePath), 'pyproject.toml'),
-          path.join(path.dirname(packageToRelease.packagePath), 'setup.py'),
-          path.join(path.dirname(packageToRelease.packagePath), '__init__.py'),
-        ];
-        await this.pythonBumpPackages(newVersion, pythonFiles);
+      if (releases.length === 0) {
+        return { data: { releases, plan: null, dryRun } };
       }
 
-      await this.gitClient.createTag({
-        tagName,
-        tagMessage: `Release ${tagName}`,
-      });
+      const changes = new FileChangeSet();
+      await this.bumpWorkspacePackages(
+        changes,
+        packagesToRelease,
+        workspacePackages,
+        versions
+      );
+      await this.updateChangelogs(changes, releases, packagesToRelease);
+      await this.updateVersionsManifest(
+        changes,
+        packagesToRelease.map(({ name }) => ({
+          name,
+          version: versions[name],
+          tagName: this.getTagName(this.getReleaseName(name), versions[name]),
+        }))
+      );
+      await this.removeChangeFiles(changes, changeFiles);
 
-      await this.githubClient.createRelease({
-        body: releaseNotes,
-        releaseName: tagName,
-        owner: this.repoInfo.owner,
-        repo: this.repoInfo.repo,
-        tagName,
-        prerelease: isPrerelease,
+      const plan = await this.createReleasePlan({
+        releases,
+        changes,
         draft,
+        to,
       });
 
-      await this.gitClient.pushTags();
+      // A dry run only returns the plan without making any changes
+      if (!dryRun) {
+        await this.executeReleasePlan(plan);
+      }
 
-      data = {
-        version: newVersion,
-        tagName,
-        releaseNotes,
-      };
+      data = { releases, plan, dryRun };
     } catch (foundError) {
       if (foundError instanceof OrbitItError) {
         error = foundError;
@@ -322,282 +678,1792 @@ class ReleaseService {
       data,
     };
   }
+  // #endregion - @versionStrategyIndependentRelease
 
-  private async getChangedPackages(commits: Commit[]): Promise<Array<{name: string; version: string; packagePath: string}>> {
-    const changedFiles = new Set<string>();
-    
-    // Collect all changed files from commits
-    const filePromises = commits.map(async (commit) => {
-      return await this.gitClient.getCommitFiles(commit.hash);
-    });
-    
-    const allFiles = await Promise.all(filePromises);
-    for (const files of allFiles) {
-      for (const file of files) {
-        changedFiles.add(file);
+  // #region - @resolvePackageBumps
+  /**
+   * @description Resolves the bump of every changed package and cascades the configured bump to their dependents,
+   * as a prerelease with the `pre*` release types.
+   * @param type The release type requested by the user (optional).
+   * @param changedPackages The packages with commits since their latest tag or change files.
+   * @param graph The dependency graph of the workspace.
+   * @returns The bumps to apply by package name.
+   */
+  private resolvePackageBumps(
+    type: ReleaseType | undefined,
+    changedPackages: ChangedWorkspacePackage[],
+    graph: WorkspaceGraph
+  ): Map<string, ReleaseBump> {
+    const bumps = new Map<string, ReleaseBump>();
+
+    for (const changedPackage of changedPackages) {
+      const bump = this.resolveReleaseBump(
+        type,
+        changedPackage.commits,
+        changedPackage.changeFiles
+      );
+
+      if (bump.type) {
+        bumps.set(changedPackage.name, bump);
       }
     }
 
-    const changedPackages: Array<{name: string; version: string; packagePath: string}> = [];
-
-    // Check which workspaces have changes
-    const packagePromises = this.config.project.workspaces.map(async (workspace) => {
-      const hasChangesInWorkspace = Array.from(changedFiles).some(file => 
-        file.startsWith(workspace)
-      );
-
-      if (hasChangesInWorkspace) {
-        const packageJsonPath = path.join(workspace, 'package.json');
-        try {
-          const packageJson = await readJsonFile(packageJsonPath);
-          return {
-            name: packageJson.name || workspace,
-            version: packageJson.version || '0.0.0',
-            packagePath: packageJsonPath,
-          };
-        } catch {
-          // If package.json doesn't exist, use directory name and default version
-          return {
-            name: path.basename(workspace),
-            version: '0.0.0',
-            packagePath: packageJsonPath,
-          };
+    const dependentBump = this.getDependentBump(type);
+    let released = [...bumps.keys()];
+
+    // Packages depending on a released package get the configured bump,
+    // and the groups of the bumped packages join in, until no package is added
+    while (released.length > 0) {
+      const previousNames = new Set(bumps.keys());
+
+      if (dependentBump) {
+        for (const dependent of graph.getTransitiveDependents(released)) {
+          if (!bumps.has(dependent)) {
+            bumps.set(dependent, {
+              type: dependentBump,
+              commits: [],
+              changeFiles: [],
+            });
+          }
         }
       }
-      return null;
-    });
 
-    const results = await Promise.all(packagePromises);
-    changedPackages.push(...results.filter(Boolean));
+      this.applyGroupBumps(bumps);
+      released = [...bumps.keys()].filter((name) => !previousNames.has(name));
+    }
 
-    return changedPackages;
+    return bumps;
   }
-  // #endregion - @versionStrategyIndependentRelease
-
-  // #region - @nodeJsBumpPackages
-  private async nodeJsBumpPackages(
-    newVersion: string,
-    workspaces: string[]
-  ): Promise<FunctionResult> {
-    let error: OrbitItError | undefined;
+  // #endregion - @resolvePackageBumps
 
-    try {
-      const packageJsonPaths = await fg(workspaces, {
-        cwd: process.cwd(),
-        absolute: true,
-        ignore: ignorePaths,
-        onlyFiles: true,
-      });
+  // #region - @getDependentBump
+  /**
+   * @description Gets the bump of the packages depending on a released package, `release.dependentBump`.
+   * A stable package can't depend on a prerelease, so the dependents of a prerelease are prereleases too.
+   * @param type The release type requested by the user (optional).
+   * @returns The bump of the dependents, or null if they aren't bumped.
+   */
+  private getDependentBump(type: ReleaseType | undefined): ReleaseType | null {
+    const dependentBump = this.config.release.dependentBump ?? 'patch';
 
-      if (!packageJsonPaths) {
-        throw new OrbitItError({
-          message: 'No package.json files found.',
-          content: [{ message: 'Please check your workspace configuration.' }],
-        });
-      }
+    if (dependentBump === 'none') {
+      return null;
+    }
 
-      await Promise.all(
-        packageJsonPaths.map(async (packageJsonPath) => {
-          const packageJson = await readJsonFile(packageJsonPath);
-          packageJson.version = newVersion;
-          await writeJsonFile(packageJsonPath, packageJson);
-        })
-      );
-    } catch (foundError) {
-      if (foundError instanceof OrbitItError) {
-        error = foundError;
-      } else if (foundError instanceof Error) {
-        error = new OrbitItError({
-          message: foundError.message,
-          content: [{ message: 'Failed to bump version.' }],
-        });
-      }
+    // `prerelease` bumps the counter of the dependents that already are prereleases
+    if (type === 'prerelease') {
+      return type;
     }
 
+    return type?.startsWith('pre')
+      ? prereleaseBumps[dependentBump]
+      : dependentBump;
+  }
+  // #endregion - @getDependentBump
+
+  // #region - @getReleaseMembers
+  /**
+   * @description Gathers the bumped packages released under a name, a single package or the members of a group,
+   * with their merged commits, change files and bump.
+   * @param releaseName The name of the release.
+   * @param workspacePackages The packages of the workspace.
+   * @param changedPackages The packages with commits since their latest tag or change files.
+   * @param bumps The bumps to apply by package name.
+   * @returns The members of the release and what they have in common.
+   */
+  private getReleaseMembers(
+    releaseName: string,
+    workspacePackages: WorkspacePackage[],
+    changedPackages: ChangedWorkspacePackage[],
+    bumps: Map<string, ReleaseBump>
+  ): {
+    members: WorkspacePackage[];
+    previousVersion: string;
+    previousTag?: string;
+    commits: Commit[];
+    changeFiles: ChangeFile[];
+    bump: ReleaseBump;
+  } {
+    const members = workspacePackages.filter(
+      ({ name }) => bumps.has(name) && this.getReleaseName(name) === releaseName
+    );
+    const memberBumps = members.map(({ name }) => bumps.get(name));
+    const changedMembers = changedPackages.filter(({ name }) =>
+      members.some((member) => member.name === name)
+    );
+
     return {
-      error,
+      members,
+      // The members of a group catch up with the highest version of the group
+      previousVersion: members
+        .map(({ version }) => version)
+        .sort((a, b) => compareVersions(b, a))[0],
+      previousTag: changedMembers[0]?.previousTag,
+      ...this.mergeChanges(changedMembers),
+      // Group members share the type of their bump
+      bump: { ...memberBumps[0], ...this.mergeChanges(memberBumps) },
     };
   }
-  // #endregion - @nodeJsBumpPackages
+  // #endregion - @getReleaseMembers
 
-  // #region - @pythonBumpPackages
-  private async pythonBumpPackages(
-    newVersion: string,
-    pythonFiles: string[]
-  ): Promise<FunctionResult> {
-    let error: OrbitItError | undefined;
+  // #region - @getReleasedDependencies
+  /**
+   * @description Lists the internal dependencies of a release that were released before it.
+   * Dependencies within a group are released together, so they aren't listed.
+   * @param memberNames The packages of the release.
+   * @param graph The dependency graph of the workspace.
+   * @param versions The released versions by package name.
+   * @returns The released dependencies, as `name@version`.
+   */
+  private getReleasedDependencies(
+    memberNames: string[],
+    graph: WorkspaceGraph,
+    versions: Record<string, string>
+  ): string[] {
+    const dependencies = new Set(
+      memberNames.flatMap((memberName) => graph.getDependencies(memberName))
+    );
 
-    try {
-      const existingFiles = await fg(pythonFiles, {
-        cwd: process.cwd(),
-        absolute: true,
-        ignore: ignorePaths,
-        onlyFiles: true,
-      });
+    return [...dependencies]
+      .filter(
+        (dependency) =>
+          versions[dependency] && !memberNames.includes(dependency)
+      )
+      .map((dependency) => `${dependency}@${versions[dependency]}`);
+  }
+  // #endregion - @getReleasedDependencies
 
-      if (existingFiles.length === 0) {
-        throw new OrbitItError({
-          message: 'No Python version files found.',
-          content: [{ message: 'Please check your workspace configuration.' }],
+  // #region - @applyGroupBumps
+  /**
+   * @description Gives every member of a lockstep group the highest bump of the group,
+   * including the members without changes.
+   * @param bumps The bumps to apply by package name, updated in place.
+   */
+  private applyGroupBumps(bumps: Map<string, ReleaseBump>): void {
+    const groupBumps = new Map<string, ReleaseType>();
+
+    for (const [name, { type }] of bumps) {
+      const group = this.packageGroups.get(name);
+      const groupBump = groupBumps.get(group);
+
+      if (
+        group &&
+        (!groupBump ||
+          releaseTypeOrder.indexOf(type) > releaseTypeOrder.indexOf(groupBump))
+      ) {
+        groupBumps.set(group, type);
+      }
+    }
+
+    for (const [name, group] of this.packageGroups) {
+      if (groupBumps.has(group)) {
+        bumps.set(name, {
+          commits: [],
+          changeFiles: [],
+          ...bumps.get(name),
+          type: groupBumps.get(group),
         });
       }
+    }
+  }
+  // #endregion - @applyGroupBumps
+
+  // #region - @mergeChanges
+  /**
+   * @description Merges the commits and change files of the members of a release, without duplicates:
+   * a commit or change file can touch several members of a group.
+   * @param items The commits and change files of each member.
+   * @returns The commits and change files of the release.
+   */
+  private mergeChanges(
+    items: { commits: Commit[]; changeFiles: ChangeFile[] }[]
+  ): { commits: Commit[]; changeFiles: ChangeFile[] } {
+    const commits = new Map<string, Commit>();
+    const changeFiles = new Map<string, ChangeFile>();
+
+    for (const item of items) {
+      for (const commit of item.commits) {
+        commits.set(commit.hash, commit);
+      }
 
-      await Promise.all(
-        existingFiles.map(async (filePath) => {
-          if (filePath.endsWith('pyproject.toml')) {
-            await this.updatePyprojectToml(filePath, newVersion);
-          } else if (filePath.endsWith('setup.py')) {
-            await this.updateSetupPy(filePath, newVersion);
-          } else if (filePath.endsWith('__init__.py')) {
-            await this.updatePythonInit(filePath, newVersion);
-          }
-        })
-      );
-    } catch (foundError) {
-      if (foundError instanceof OrbitItError) {
-        error = foundError;
-      } else if (foundError instanceof Error) {
-        error = new OrbitItError({
-          message: foundError.message,
-          content: [{ message: 'Failed to bump Python version.' }],
+      for (const changeFile of item.changeFiles) {
+        changeFiles.set(changeFile.path, {
+          ...changeFile,
+          bumps: {
+            ...changeFiles.get(changeFile.path)?.bumps,
+            ...changeFile.bumps,
+          },
         });
       }
     }
 
     return {
-      error,
+      commits: [...commits.values()],
+      changeFiles: [...changeFiles.values()],
     };
   }
+  // #endregion - @mergeChanges
 
-  private async updatePyprojectToml(
-    filePath: string,
-    newVersion: string
-  ): Promise<void> {
-    const fs = await import('node:fs/promises');
-    const content = await fs.readFile(filePath, 'utf8');
-    const updatedContent = content.replace(
-      /^version\s*=\s*["'].*?["']/m,
-      `version = "${newVersion}"`
-    );
-    await fs.writeFile(filePath, updatedContent, 'utf8');
-  }
-
-  private async updateSetupPy(
-    filePath: string,
-    newVersion: string
-  ): Promise<void> {
-    const fs = await import('node:fs/promises');
-    const content = await fs.readFile(filePath, 'utf8');
-    const updatedContent = content.replace(
-      /version\s*=\s*["'].*?["']/g,
-      `version="${newVersion}"`
-    );
-    await fs.writeFile(filePath, updatedContent, 'utf8');
+  // #region - @getReleaseName
+  /**
+   * @description Gets the name a package is released under: its lockstep group, or the package itself.
+   * @param name The name of the package.
+   * @returns The name of the release.
+   */
+  private getReleaseName(name: string): string {
+    return this.packageGroups.get(name) ?? name;
   }
+  // #endregion - @getReleaseName
 
-  private async updatePythonInit(
-    filePath: string,
+  // #region - @bumpProjectPackages
+  /**
+   * @description Plans the shared version bump of the manifest files of every workspace in fixed versioning.
+   * @param changes The change set collecting the file edits.
+   * @param newVersion The version to write.
+   */
+  private async bumpProjectPackages(
+    changes: FileChangeSet,
     newVersion: string
   ): Promise<void> {
-    const fs = await import('node:fs/promises');
-    const content = await fs.readFile(filePath, 'utf8');
-    const updatedContent = content.replace(
-      /^__version__\s*=\s*["'].*?["']/m,
-      `__version__ = "${newVersion}"`
-    );
-    await fs.writeFile(filePath, updatedContent, 'utf8');
-  }
-  // #endregion - @pythonBumpPackages
+    if (this.config.project.environment === 'nodejs') {
+      const workspaces = this.config.project.workspaces.map((workspace) =>
+        path.join(workspace, 'package.json')
+      );
 
-  // #region - @generateReleaseNotes
-  /**
-   * @description Generates release notes based on grouped commits and the authors.
-   */
-  private generateReleaseNotes({
-    tagName,
-    commits,
-  }: {
-    tagName: string;
-    commits: Commit[];
-  }): string {
-    const groupedCommits = this.groupCommitsByType(commits);
+      const bumpResult = await this.nodeJsBumpPackages(
+        changes,
+        newVersion,
+        workspaces
+      );
 
-    let releaseNotes = `## Release Notes for ${tagName}\n\n`;
+      if (bumpResult.error) {
+        throw bumpResult.error;
+      }
 
-    for (const [type, groupCommits] of Object.entries(groupedCommits)) {
-      if (groupCommits.length > 0) {
-        releaseNotes += `### ${this.getCommitTypeLabel(type)}\n`;
+      // Every package shares the new version, so internal ranges follow it
+      const workspacePackages = await this.getWorkspacePackages();
+      const updateResult = await this.nodeJsUpdateDependencies(
+        changes,
+        workspacePackages,
+        Object.fromEntries(
+          workspacePackages.map(({ name }) => [name, newVersion])
+        )
+      );
 
-        for (const commit of groupCommits) {
-          releaseNotes += `- ${commit.message} by @${commit.author_name || commit.author_email}\n`;
-        }
-        releaseNotes += '\n';
+      if (updateResult.error) {
+        throw updateResult.error;
       }
     }
 
-    return releaseNotes;
+    if (this.config.project.environment === 'python') {
+      const pythonFiles = this.config.project.workspaces.flatMap(
+        (workspace) => [
+          path.join(workspace, 'pyproject.toml'),
+          path.join(workspace, 'setup.py'),
+          path.join(workspace, '__init__.py'),
+        ]
+      );
+
+      const bumpResult = await this.pythonBumpPackages(
+        changes,
+        newVersion,
+        pythonFiles
+      );
+
+      if (bumpResult.error) {
+        throw bumpResult.error;
+      }
+    }
+  }
+  // #endregion - @bumpProjectPackages
+
+  // #region - @bumpWorkspacePackages
+  /**
+   * @description Plans the version bumps of the released workspace packages and the ranges depending on them.
+   * @param changes The change set collecting the file edits.
+   * @param packagesToRelease The packages to bump.
+   * @param workspacePackages The packages of the workspace.
+   * @param versions The released versions by package name.
+   */
+  private async bumpWorkspacePackages(
+    changes: FileChangeSet,
+    packagesToRelease: WorkspacePackage[],
+    workspacePackages: WorkspacePackage[],
+    versions: Record<string, string>
+  ): Promise<void> {
+    // Every package only edits the files of its own directory
+    await Promise.all(
+      packagesToRelease.map((packageToRelease) =>
+        this.bumpWorkspacePackage(
+          changes,
+          packageToRelease,
+          versions[packageToRelease.name]
+        )
+      )
+    );
+
+    if (this.config.project.environment === 'nodejs') {
+      const updateResult = await this.nodeJsUpdateDependencies(
+        changes,
+        workspacePackages,
+        versions
+      );
+
+      if (updateResult.error) {
+        throw updateResult.error;
+      }
+    }
+  }
+  // #endregion - @bumpWorkspacePackages
+
+  // #region - @bumpWorkspacePackage
+  /**
+   * @description Plans the version bump of the manifest files of a single workspace package.
+   * @param changes The change set collecting the file edits.
+   * @param workspacePackage The package to bump.
+   * @param newVersion The version to write.
+   */
+  private async bumpWorkspacePackage(
+    changes: FileChangeSet,
+    workspacePackage: WorkspacePackage,
+    newVersion: string
+  ): Promise<void> {
+    if (this.config.project.environment === 'nodejs') {
+      const bumpResult = await this.nodeJsBumpPackages(changes, newVersion, [
+        workspacePackage.packagePath,
+      ]);
+
+      if (bumpResult.error) {
+        throw bumpResult.error;
+      }
+    }
+
+    if (this.config.project.environment === 'python') {
+      const bumpResult = await this.pythonBumpPackages(changes, newVersion, [
+        path.join(workspacePackage.directory, 'pyproject.toml'),
+        path.join(workspacePackage.directory, 'setup.py'),
+        path.join(workspacePackage.directory, '__init__.py'),
+      ]);
+
+      if (bumpResult.error) {
+        throw bumpResult.error;
+      }
+    }
+  }
+  // #endregion - @bumpWorkspacePackage
+
+  // #region - @updateChangelogs
+  /**
+   * @description Prepends a dated section for each release to the root changelog and,
+   * in independent versioning, to the changelog of each released package.
+   * Sections that already exist are not added again.
+   * @param changes The change set collecting the file edits.
+   * @param releases The releases to add.
+   * @param packagesToRelease The released workspace packages (independent versioning only).
+   */
+  private async updateChangelogs(
+    changes: FileChangeSet,
+    releases: PackageReleaseResult[],
+    packagesToRelease: WorkspacePackage[] = []
+  ): Promise<void> {
+    if (this.config.release.changelog === false) {
+      return;
+    }
+
+    const date = new Date().toISOString().slice(0, 10);
+    const isIndependent = packagesToRelease.length > 0;
+
+    const addSection = async (
+      filePath: string,
+      title: string,
+      release: PackageReleaseResult
+    ) => {
+      const section = formatChangelogSection({
+        title,
+        date,
+        notes: release.releaseNotes,
+        compareUrl: release.previousTag
+          ? this.getCompareUrl(release.previousTag, release.tagName)
+          : undefined,
+      });
+
+      await changes.write(
+        filePath,
+        prependChangelogSection(await changes.read(filePath), title, section)
+      );
+    };
+
+    // Sections are prepended, so the last release is added first to keep the release order
+    await runSequentially([...releases].reverse(), async (release) => {
+      await addSection(
+        changelogFileName,
+        isIndependent ? release.tagName : release.version,
+        release
+      );
+
+      // Every member of a group gets the section of the group, in its own changelog
+      await Promise.all(
+        packagesToRelease
+          .filter(({ name }) => this.getReleaseName(name) === release.name)
+          .map((releasedPackage) =>
+            addSection(
+              path.join(releasedPackage.directory, changelogFileName),
+              release.version,
+              release
+            )
+          )
+      );
+    });
+  }
+  // #endregion - @updateChangelogs
+
+  // #region - @getManifest
+  /**
+   * @description Reads the versions manifest, unless `release.manifest` is disabled.
+   * @returns The manifest, or null if it is disabled or doesn't exist yet.
+   */
+  private async getManifest(): Promise<VersionsManifest | null> {
+    if (
+      this.config.release.manifest === false ||
+      !fileExists(manifestFilePath)
+    ) {
+      return null;
+    }
+
+    return this.parseManifestContent(
+      await fs.promises.readFile(manifestFilePath, { encoding: 'utf8' })
+    );
+  }
+  // #endregion - @getManifest
+
+  // #region - @updateVersionsManifest
+  /**
+   * @description Records the released versions and tags in the versions manifest, created if needed,
+   * so that it is updated by the release commit.
+   * @param changes The change set collecting the file edits.
+   * @param releases The released packages, or the project in fixed versioning, with their version and tag.
+   */
+  private async updateVersionsManifest(
+    changes: FileChangeSet,
+    releases: { name: string; version: string; tagName: string }[]
+  ): Promise<void> {
+    if (this.config.release.manifest === false) {
+      return;
+    }
+
+    const content = await changes.read(manifestFilePath);
+    const manifest = content
+      ? this.parseManifestContent(content)
+      : { packages: {} };
+
+    await changes.write(
+      manifestFilePath,
+      formatManifest(updateManifest(manifest, releases))
+    );
+  }
+  // #endregion - @updateVersionsManifest
+
+  // #region - @parseManifestContent
+  /**
+   * @description Parses the versions manifest, failing on invalid content rather than guessing versions.
+   * @param content The content of the manifest file.
+   * @returns The manifest.
+   */
+  private parseManifestContent(content: string): VersionsManifest {
+    const manifest = parseManifest(content);
+
+    if (!manifest) {
+      throw new OrbitItError({
+        message: 'Invalid versions manifest',
+        content: [
+          {
+            message:
+              'Expected `{ "packages": { "<name>": { "version", "tag" } } }`. Run `orbit-it manifest bootstrap` to rebuild it from the tags.',
+            target: manifestFilePath,
+          },
+        ],
+      });
+    }
+
+    return manifest;
+  }
+  // #endregion - @parseManifestContent
+
+  // #region - @getCompareUrl
+  /**
+   * @description Gets the GitHub link comparing two tags.
+   * @param from The previous tag.
+   * @param to The new tag.
+   * @returns The compare URL.
+   */
+  private getCompareUrl(from: string, to: string): string {
+    return getCompareUrl(getRepositoryUrl(this.repoInfo), from, to);
+  }
+  // #endregion - @getCompareUrl
+
+  // #region - @createReleasePlan
+  /**
+   * @description Builds the release plan: the file edits, the release commit, the tags and the GitHub releases.
+   * @param releases The releases to publish.
+   * @param changes The file edits of the release.
+   * @param draft Whether the GitHub releases are drafts.
+   * @param to The end of the commit range, tagged when there is no release commit. It must be HEAD otherwise.
+   * @returns The plan to execute.
+   */
+  private async createReleasePlan({
+    releases,
+    changes,
+    draft,
+    to,
+  }: {
+    releases: PackageReleaseResult[];
+    changes: FileChangeSet;
+    draft: boolean;
+    to?: string;
+  }): Promise<ReleasePlan> {
+    const files = changes.list();
+    const branch = await this.gitClient.getCurrentBranch();
+
+    // The release commit is made on top of HEAD, it can't release another commit
+    if (
+      to &&
+      files.length > 0 &&
+      (await this.gitClient.resolveCommit(to)) !==
+        (await this.gitClient.getHeadCommit())
+    ) {
+      throw new OrbitItError({
+        message: `Can't make the release commit of ${to}`,
+        content: [
+          {
+            message:
+              'The release commit is made on the current HEAD. Check out the `--to` commit first, or disable the changelog and the manifest to only tag it.',
+            target: 'to',
+          },
+        ],
+      });
+    }
+
+    // The tags and GitHub releases wait for the release pull request to be merged
+    if (this.config.release.mode === 'pr') {
+      if (files.length === 0) {
+        throw new OrbitItError({
+          message: 'Nothing to commit to the release pull request',
+          content: [
+            {
+              message:
+                'The pull request mode needs version files or changelogs to update.',
+              target: 'release.mode',
+            },
+          ],
+        });
+      }
+
+      return {
+        releases,
+        files,
+        commitMessage: this.getReleaseCommitMessage(releases),
+        tags: [],
+        tagTarget: null,
+        branch,
+        githubReleases: [],
+        pullRequest: this.getReleasePullRequest(releases, branch),
+      };
+    }
+
+    return {
+      releases,
+      files,
+      commitMessage:
+        files.length > 0 ? this.getReleaseCommitMessage(releases) : null,
+      tags: releases.map(({ tagName }) => tagName),
+      // The release commit is made on top of the current branch
+      tagTarget: files.length > 0 ? null : (to ?? null),
+      branch,
+      githubReleases: this.getGitHubReleases(releases, draft),
+      pullRequest: null,
+    };
+  }
+  // #endregion - @createReleasePlan
+
+  // #region - @getGitHubReleases
+  /**
+   * @description Describes the GitHub releases of the released tags.
+   * @param releases The releases to publish.
+   * @param draft Whether the GitHub releases are drafts.
+   * @returns The GitHub releases to create.
+   */
+  private getGitHubReleases(
+    releases: PackageReleaseResult[],
+    draft: boolean
+  ): ReleasePlanGitHubRelease[] {
+    return releases.map(({ tagName, version, releaseNotes }) => ({
+      tagName,
+      releaseName: tagName,
+      body: releaseNotes,
+      prerelease: semver.prerelease(version) !== null,
+      draft,
+    }));
+  }
+  // #endregion - @getGitHubReleases
+
+  // #region - @getReleasePullRequest
+  /**
+   * @description Describes the release pull request: its title lists the tags and its body the release notes.
+   * The releases are kept in the metadata of the body to be published once the pull request is merged.
+   * @param releases The releases of the pull request.
+   * @param base The branch the pull request is merged into.
+   * @returns The release pull request.
+   */
+  private getReleasePullRequest(
+    releases: PackageReleaseResult[],
+    base: string
+  ): ReleasePlanPullRequest {
+    const tags = releases.map(({ tagName }) => tagName).join(', ');
+    const notes = releases
+      .map(({ releaseNotes }) => releaseNotes.trim())
+      .join('\n\n---\n\n');
+
+    // The commits and change files of the bumps are left out to keep the body small
+    const metadata = releases.map(({ bump, ...packageRelease }) => ({
+      ...packageRelease,
+      bump: { type: bump.type, commits: [], changeFiles: [] },
+    }));
+
+    return {
+      branch: releasePullRequestBranch,
+      base,
+      title: `chore: release ${tags}`,
+      body: appendPullRequestMetadata(
+        `Merging this pull request releases ${tags}. The tags and GitHub releases are created by the next \`orbit-it release\` run on ${base}.\n\n${notes}`,
+        metadata
+      ),
+    };
+  }
+  // #endregion - @getReleasePullRequest
+
+  // #region - @executeReleasePlan
+  /**
+   * @description Writes the planned files, commits them, tags the release commit, pushes the tags, creates the GitHub releases and finally pushes the branch.
+   * In the `pr` mode, the files are committed to the release pull request instead.
+   * @param plan The plan to execute.
+   */
+  private async executeReleasePlan(plan: ReleasePlan): Promise<void> {
+    if (plan.pullRequest) {
+      await this.executeReleasePullRequest(plan);
+      return;
+    }
+
+    await this.commitPlannedFiles(plan);
+
+    // Git operations must run sequentially
+    await runSequentially(plan.tags, async (tagName) => {
+      await this.gitClient.createTag({
+        tagName,
+        tagMessage: `Release ${tagName}`,
+        ref: plan.tagTarget ?? undefined,
+      });
+
+      this.transaction.record({ type: 'tag', tagName });
+    });
+
+    await this.gitClient.pushTags(plan.tags);
+    this.transaction.record({ type: 'push-tags', tagNames: plan.tags });
+
+    // Releases are created once the tags exist on the remote, in dependency order
+    await runSequentially(plan.githubReleases, async (githubRelease) => {
+      const createdRelease = await this.githubClient.createRelease({
+        ...githubRelease,
+        owner: this.repoInfo.owner,
+        repo: this.repoInfo.repo,
+      });
+
+      this.transaction.record({
+        type: 'release',
+        releaseId: createdRelease.id,
+        tagName: githubRelease.tagName,
+      });
+    });
+
+    // The branch is pushed last since it is the only step that can't be undone
+    if (plan.commitMessage) {
+      await this.gitClient.pushBranch(plan.branch);
+      this.transaction.record({ type: 'push-branch', branchName: plan.branch });
+    }
+  }
+  // #endregion - @executeReleasePlan
+
+  // #region - @executeReleasePullRequest
+  /**
+   * @description Commits the planned files to the release branch, reset from the current commit,
+   * force pushes it and opens the release pull request, or updates the one already open.
+   * @param plan The plan to execute.
+   */
+  private async executeReleasePullRequest(plan: ReleasePlan): Promise<void> {
+    const { branch, base, title, body } = plan.pullRequest;
+
+    await this.gitClient.checkoutBranch(branch, true);
+    this.transaction.record({ type: 'checkout', previousBranch: base });
+
+    await this.commitPlannedFiles(plan);
+
+    // The release branch belongs to orbit-it, it is rewritten on every release
+    await this.gitClient.pushBranch(branch, true);
+    this.transaction.record({ type: 'push-branch', branchName: branch });
+
+    await this.gitClient.checkoutBranch(base);
+
+    const openPullRequest = await this.githubClient.findPullRequest({
+      owner: this.repoInfo.owner,
+      repo: this.repoInfo.repo,
+      head: branch,
+      state: 'open',
+    });
+
+    if (openPullRequest) {
+      await this.githubClient.updatePullRequest({
+        owner: this.repoInfo.owner,
+        repo: this.repoInfo.repo,
+        pullNumber: openPullRequest.number,
+        title,
+        body,
+      });
+    } else {
+      await this.githubClient.createPullRequest({
+        owner: this.repoInfo.owner,
+        repo: this.repoInfo.repo,
+        head: branch,
+        base,
+        title,
+        body,
+      });
+    }
+  }
+  // #endregion - @executeReleasePullRequest
+
+  // #region - @commitPlannedFiles
+  /**
+   * @description Writes the planned files and commits them with the release commit message, if any.
+   * @param plan The plan to execute.
+   */
+  private async commitPlannedFiles(plan: ReleasePlan): Promise<void> {
+    // The previous content is recorded before each write
+    await runSequentially(plan.files, async ({ path: filePath, after }) => {
+      await this.transaction.recordFile(filePath);
+
+      if (after === null) {
+        await removeFile(filePath);
+      } else {
+        await writeMdFile(filePath, after);
+      }
+    });
+
+    if (plan.commitMessage) {
+      const previousCommit = await this.gitClient.getHeadCommit();
+
+      await this.gitClient.commitFiles({
+        message: plan.commitMessage,
+        files: plan.files.map(({ path: filePath }) => filePath),
+      });
+
+      this.transaction.record({ type: 'commit', previousCommit });
+    }
+  }
+  // #endregion - @commitPlannedFiles
+
+  // #region - @getReleaseCommitMessage
+  /**
+   * @description Renders the `release.commitMessage` template. `{tags}` and `{version}` are replaced with the released tags and versions.
+   * @param releases The releases included in the commit.
+   * @returns The commit message.
+   */
+  private getReleaseCommitMessage(releases: PackageReleaseResult[]): string {
+    const template =
+      this.config.release.commitMessage ?? 'chore(release): {tags}';
+    const tags = releases.map(({ tagName }) => tagName).join(', ');
+    const versions = Array.from(
+      new Set(releases.map(({ version }) => version))
+    ).join(', ');
+
+    return template
+      .replaceAll('{tags}', tags)
+      .replaceAll('{version}', versions);
+  }
+  // #endregion - @getReleaseCommitMessage
+
+  // #region - @getWorkspacePackages
+  /**
+   * @description Resolves the workspace globs from the configuration into packages with their current version.
+   * The versions of the manifest take precedence over the package manifests.
+   * @returns The packages found in the configured workspaces.
+   */
+  private async getWorkspacePackages(): Promise<WorkspacePackage[]> {
+    const workspacePackages = await findWorkspacePackages(
+      this.config.project.workspaces ?? []
+    );
+    const manifest = await this.getManifest();
+
+    return workspacePackages.map((workspacePackage) => ({
+      ...workspacePackage,
+      version:
+        manifest?.packages[workspacePackage.name]?.version ??
+        workspacePackage.version,
+    }));
+  }
+  // #endregion - @getWorkspacePackages
+
+  // #region - @getReleaseCommits
+  /**
+   * @description Gets the commits of a release with the `release.commitCollection` mode.
+   * @param options The refs to start from (exclusive) and to end at, and the paths the commits must touch.
+   * @returns The commits of the release, newest first.
+   */
+  private async getReleaseCommits(options: {
+    from?: string;
+    to?: string;
+    paths?: string[];
+  }): Promise<Commit[]> {
+    const commitCollection = this.config.release.commitCollection ?? 'all';
+
+    // The change files alone decide the release
+    if (this.config.release.changeSource === 'files') {
+      return [];
+    }
+
+    const commits = await this.gitClient.getCommits({
+      ...options,
+      firstParent:
+        commitCollection === 'first-parent' ||
+        commitCollection === 'pull-request-titles',
+      noMerges: commitCollection === 'no-merges',
+    });
+
+    return commitCollection === 'pull-request-titles'
+      ? applyPullRequestTitles(commits)
+      : commits;
+  }
+  // #endregion - @getReleaseCommits
+
+  // #region - @getChangeFiles
+  /**
+   * @description Reads the pending change files, unless `release.changeSource` is `commits`.
+   * @returns The change files, sorted by path.
+   */
+  private async getChangeFiles(): Promise<ChangeFile[]> {
+    if (this.config.release.changeSource === 'commits') {
+      return [];
+    }
+
+    const changeFiles = await new ChangeService({ config: this.config }).list();
+
+    if (changeFiles.error) {
+      throw changeFiles.error;
+    }
+
+    return changeFiles.data;
+  }
+  // #endregion - @getChangeFiles
+
+  // #region - @removeChangeFiles
+  /**
+   * @description Plans the removal of the change files consumed by the release, so that they are deleted by the release commit.
+   * @param changes The change set collecting the file edits.
+   * @param changeFiles The change files of the release.
+   */
+  private async removeChangeFiles(
+    changes: FileChangeSet,
+    changeFiles: ChangeFile[]
+  ): Promise<void> {
+    await Promise.all(
+      changeFiles.map(({ path: filePath }) => changes.write(filePath, null))
+    );
+  }
+  // #endregion - @removeChangeFiles
+
+  // #region - @getChangedPackages
+  /**
+   * @description Finds the workspace packages with commits since their own latest `name@version` tag or named by a change file.
+   * Only commits touching files under the package directory are considered.
+   * When graduating, the packages with a prerelease version are returned with the commits since their latest stable tag.
+   * @param workspacePackages The packages of the workspace.
+   * @param tags The reachable tags.
+   * @param changeFiles The pending change files.
+   * @param range The `from` and `to` overrides of the commit range.
+   * @param isGraduation Whether the prereleases are being graduated.
+   * @returns The changed packages along with their commit range.
+   */
+  private async getChangedPackages(
+    workspacePackages: WorkspacePackage[],
+    tags: string[],
+    changeFiles: ChangeFile[],
+    { from, to }: { from?: string; to?: string },
+    isGraduation = false
+  ): Promise<ChangedWorkspacePackage[]> {
+    const packagesWithCommits = await Promise.all(
+      workspacePackages.map(async (workspacePackage) => {
+        // The members of a group are compared against the latest tag of the group
+        const previousTag =
+          from ??
+          this.getLatestTag(
+            tags,
+            this.getReleaseName(workspacePackage.name),
+            isGraduation
+          );
+
+        const commits = await this.getReleaseCommits({
+          from: previousTag,
+          to,
+          paths: [workspacePackage.directory],
+        });
+
+        // Each change file only keeps the bump of the package
+        const packageChangeFiles = changeFiles
+          .filter(({ bumps }) => bumps[workspacePackage.name])
+          .map((changeFile) => ({
+            ...changeFile,
+            bumps: {
+              [workspacePackage.name]: changeFile.bumps[workspacePackage.name],
+            },
+          }));
+
+        return {
+          ...workspacePackage,
+          previousTag,
+          commits,
+          changeFiles: packageChangeFiles,
+        };
+      })
+    );
+
+    return packagesWithCommits.filter((workspacePackage) =>
+      isGraduation
+        ? semver.prerelease(workspacePackage.version) !== null
+        : workspacePackage.commits.length > 0 ||
+          workspacePackage.changeFiles.length > 0
+    );
+  }
+  // #endregion - @getChangedPackages
+
+  // #region - @getLatestTag
+  /**
+   * @description Gets the highest reachable tag of a package or project, parsing the tags with the tag format.
+   * Tags of other branches, packages or formats are skipped.
+   * @param tags The reachable tags.
+   * @param name The name of the package or project.
+   * @param isStable Whether prerelease tags are skipped.
+   * @returns The latest tag or undefined if nothing was released.
+   */
+  private getLatestTag(
+    tags: string[],
+    name: string,
+    isStable = false
+  ): string | undefined {
+    return findLatestTag(
+      this.getTagFormat(),
+      tags,
+      name,
+      isStable,
+      this.getCalverFormat()
+    );
+  }
+  // #endregion - @getLatestTag
+
+  // #region - @getCalverFormat
+  /**
+   * @description Gets the `release.calverFormat` of calendar versioning.
+   * @returns The CalVer format, or undefined with semantic versioning.
+   */
+  private getCalverFormat(): string | undefined {
+    if (this.config.release.versionScheme !== 'calver') {
+      return;
+    }
+
+    return this.config.release.calverFormat ?? defaultCalverFormat;
+  }
+  // #endregion - @getCalverFormat
+
+  // #region - @getTagName
+  /**
+   * @description Renders the tag of a release with the tag format.
+   * @param name The name of the package or project.
+   * @param version The released version.
+   * @returns The tag name.
+   */
+  private getTagName(name: string, version: string): string {
+    return formatTag(this.getTagFormat(), { name, version });
+  }
+  // #endregion - @getTagName
+
+  // #region - @getTagFormat
+  /**
+   * @description Gets the `release.tagFormat` template, defaulting to `v{version}` or `{name}@{version}` depending on the versioning strategy.
+   * @returns The tag template.
+   */
+  private getTagFormat(): string {
+    return (
+      this.config.release.tagFormat ??
+      getDefaultTagFormat(this.config.release.versioningStrategy)
+    );
+  }
+  // #endregion - @getTagFormat
+
+  // #region - @incrementVersion
+  /**
+   * @description Increments a version by a release type, using the prerelease identifier for the `pre*` types.
+   * Calendar versions are computed from the release date instead.
+   * @param version The current version.
+   * @param type The release type.
+   * @param preid The prerelease identifier, e.g. `beta`.
+   * @returns The new version.
+   */
+  private incrementVersion(
+    version: string,
+    type: ReleaseType,
+    preid: string
+  ): string {
+    const calverFormat = this.getCalverFormat();
+
+    if (calverFormat) {
+      return this.incrementCalendarVersion(version, type, calverFormat);
+    }
+
+    if (type !== 'graduate') {
+      return semver.inc(version, type, preid);
+    }
+
+    if (!semver.prerelease(version)) {
+      throw new OrbitItError({
+        message: `Version ${version} is not a prerelease`,
+        content: [
+          {
+            message: 'Only prerelease versions can be graduated.',
+            target: 'graduate',
+          },
+        ],
+      });
+    }
+
+    return semver.inc(version, 'release');
+  }
+  // #endregion - @incrementVersion
+
+  // #region - @incrementCalendarVersion
+  /**
+   * @description Computes the next calendar version from the current date. The bump only decides whether there is a release.
+   * @param version The current version.
+   * @param type The release type.
+   * @param calverFormat The CalVer format, e.g. `YYYY.MM.MICRO`.
+   * @returns The new version.
+   */
+  private incrementCalendarVersion(
+    version: string,
+    type: ReleaseType,
+    calverFormat: string
+  ): string {
+    if (!changeBumps.includes(type as ChangeBump)) {
+      throw new OrbitItError({
+        message: `Calendar versions can't be released as ${type}`,
+        content: [
+          {
+            message:
+              'Calendar versioning has no prereleases, use the major, minor or patch types.',
+            target: 'release.versionScheme',
+          },
+        ],
+      });
+    }
+
+    const newVersion = incrementCalver(calverFormat, version, new Date());
+
+    // e.g. a shorter year format than the previous versions
+    if (compareVersions(newVersion, version) <= 0) {
+      throw new OrbitItError({
+        message: `Version ${newVersion} is not greater than ${version}`,
+        content: [
+          {
+            message:
+              'The next calendar version must be greater than the current one.',
+            target: 'release.calverFormat',
+          },
+        ],
+      });
+    }
+
+    return newVersion;
+  }
+  // #endregion - @incrementCalendarVersion
+
+  // #region - @resolveReleaseBump
+  /**
+   * @description Resolves the bump to apply, inferring it from the commits when no type is given and the release strategy is `auto`.
+   * The change files raise the inferred bump, and decide it alone with the `manual` strategy.
+   * @param type The release type requested by the user (optional).
+   * @param commits The commits included in the release.
+   * @param changeFiles The change files of the release.
+   * @returns The bump to apply and the commits that decided it.
+   */
+  private resolveReleaseBump(
+    type: ReleaseType | undefined,
+    commits: Commit[],
+    changeFiles: ChangeFile[] = []
+  ): ReleaseBump {
+    if (type) {
+      return { type, commits: [], changeFiles };
+    }
+
+    const changeBump = getHighestChangeBump(
+      changeFiles.flatMap(({ bumps }) => Object.values(bumps))
+    );
+
+    if (this.config.release.strategy !== 'auto' && changeBump) {
+      return { type: changeBump, commits: [], changeFiles };
+    }
+
+    if (this.config.release.strategy !== 'auto') {
+      throw new OrbitItError({
+        message: 'Missing release type',
+        content: [
+          {
+            message:
+              'Provide a release type or set `release.strategy` to `auto` to infer it from commits.',
+            target: 'release.strategy',
+          },
+        ],
+      });
+    }
+
+    const inferredBump = this.inferReleaseBump(commits);
+
+    if (
+      changeBump &&
+      changeBumps.indexOf(changeBump) >
+        changeBumps.indexOf(inferredBump.type as typeof changeBump)
+    ) {
+      return { type: changeBump, commits: [], changeFiles };
+    }
+
+    return { ...inferredBump, changeFiles };
+  }
+  // #endregion - @resolveReleaseBump
+
+  // #region - @inferReleaseBump
+  /**
+   * @description Infers the bump from conventional commits: breaking changes bump major, other commits bump what their type is configured to (`feat` bumps minor and `fix`/`perf` bump patch by default).
+   * @param commits The commits included in the release.
+   * @returns The inferred bump, with a `null` type when no commit warrants a release.
+   */
+  private inferReleaseBump(commits: Commit[]): ReleaseBump {
+    const parsedCommits = this.analyzeCommits(commits);
+
+    const breaking = parsedCommits.filter(({ isBreaking }) => isBreaking);
+
+    if (breaking.length > 0) {
+      return {
+        type: 'major',
+        commits: breaking.map(({ commit }) => commit),
+        changeFiles: [],
+      };
+    }
+
+    for (const type of ['major', 'minor', 'patch'] as const) {
+      const bumpCommits = parsedCommits.filter(
+        (parsedCommit) => this.getCommitType(parsedCommit).bump === type
+      );
+
+      if (bumpCommits.length > 0) {
+        return {
+          type,
+          commits: bumpCommits.map(({ commit }) => commit),
+          changeFiles: [],
+        };
+      }
+    }
+
+    return { type: null, commits: [], changeFiles: [] };
+  }
+  // #endregion - @inferReleaseBump
+
+  // #region - @nodeJsBumpPackages
+  private async nodeJsBumpPackages(
+    changes: FileChangeSet,
+    newVersion: string,
+    workspaces: string[]
+  ): Promise<FunctionResult<string[]>> {
+    let error: OrbitItError | undefined;
+    let data: string[] | undefined;
+
+    try {
+      const packageJsonPaths = await fg(workspaces, {
+        cwd: process.cwd(),
+        absolute: true,
+        ignore: ignorePaths,
+        onlyFiles: true,
+      });
+
+      if (!packageJsonPaths) {
+        throw new OrbitItError({
+          message: 'No package.json files found.',
+          content: [{ message: 'Please check your workspace configuration.' }],
+        });
+      }
+
+      await Promise.all(
+        packageJsonPaths.map((packageJsonPath) =>
+          changes.editJson(packageJsonPath, (packageJson) => {
+            packageJson.version = newVersion;
+          })
+        )
+      );
+
+      data = packageJsonPaths;
+    } catch (foundError) {
+      if (foundError instanceof OrbitItError) {
+        error = foundError;
+      } else if (foundError instanceof Error) {
+        error = new OrbitItError({
+          message: foundError.message,
+          content: [{ message: 'Failed to bump version.' }],
+        });
+      }
+    }
+
+    return {
+      error,
+      data,
+    };
+  }
+  // #endregion - @nodeJsBumpPackages
+
+  // #region - @nodeJsUpdateDependencies
+  /**
+   * @description Rewrites the ranges of internal dependencies in every package.json to the released versions.
+   * @param changes The change set collecting the file edits.
+   * @param workspacePackages The packages of the workspace.
+   * @param versions The released versions by package name.
+   */
+  private async nodeJsUpdateDependencies(
+    changes: FileChangeSet,
+    workspacePackages: WorkspacePackage[],
+    versions: Record<string, string>
+  ): Promise<FunctionResult<void>> {
+    let error: OrbitItError | undefined;
+
+    try {
+      await Promise.all(
+        workspacePackages.map(({ packagePath }) =>
+          changes.editJson(packagePath, (packageJson) => {
+            for (const section of dependencySections) {
+              const dependencies = packageJson[section];
+
+              if (typeof dependencies !== 'object' || dependencies === null) {
+                continue;
+              }
+
+              packageJson[section] = Object.fromEntries(
+                Object.entries(dependencies).map(([name, range]) => [
+                  name,
+                  versions[name] && typeof range === 'string'
+                    ? rewriteDependencyRange(range, versions[name])
+                    : range,
+                ])
+              );
+            }
+          })
+        )
+      );
+    } catch (foundError) {
+      if (foundError instanceof OrbitItError) {
+        error = foundError;
+      } else if (foundError instanceof Error) {
+        error = new OrbitItError({
+          message: foundError.message,
+          content: [{ message: 'Failed to update internal dependencies.' }],
+        });
+      }
+    }
+
+    return {
+      error,
+    };
+  }
+  // #endregion - @nodeJsUpdateDependencies
+
+  // #region - @pythonBumpPackages
+  private async pythonBumpPackages(
+    changes: FileChangeSet,
+    newVersion: string,
+    pythonFiles: string[]
+  ): Promise<FunctionResult<string[]>> {
+    let error: OrbitItError | undefined;
+    let data: string[] | undefined;
+
+    try {
+      const existingFiles = await fg(pythonFiles, {
+        cwd: process.cwd(),
+        absolute: true,
+        ignore: ignorePaths,
+        onlyFiles: true,
+      });
+
+      if (existingFiles.length === 0) {
+        throw new OrbitItError({
+          message: 'No Python version files found.',
+          content: [{ message: 'Please check your workspace configuration.' }],
+        });
+      }
+
+      await Promise.all(
+        existingFiles.map((filePath) =>
+          changes.edit(filePath, (content) =>
+            this.updatePythonVersion(filePath, content, newVersion)
+          )
+        )
+      );
+
+      data = existingFiles;
+    } catch (foundError) {
+      if (foundError instanceof OrbitItError) {
+        error = foundError;
+      } else if (foundError instanceof Error) {
+        error = new OrbitItError({
+          message: foundError.message,
+          content: [{ message: 'Failed to bump Python version.' }],
+        });
+      }
+    }
+
+    return {
+      error,
+      data,
+    };
+  }
+
+  /**
+   * @description Replaces the version in the content of a `pyproject.toml`, `setup.py` or `__init__.py` file.
+   * @param filePath The path of the file, used to pick the version pattern.
+   * @param content The content of the file.
+   * @param newVersion The version to write.
+   * @returns The updated content.
+   */
+  private updatePythonVersion(
+    filePath: string,
+    content: string,
+    newVersion: string
+  ): string {
+    if (filePath.endsWith('pyproject.toml')) {
+      return content.replace(
+        pyprojectVersionRegex,
+        `version = "${newVersion}"`
+      );
+    }
+
+    if (filePath.endsWith('setup.py')) {
+      return content.replace(setupPyVersionRegex, `version="${newVersion}"`);
+    }
+
+    if (filePath.endsWith('__init__.py')) {
+      return content.replace(
+        pythonInitVersionRegex,
+        `__version__ = "${newVersion}"`
+      );
+    }
+
+    return content;
+  }
+  // #endregion - @pythonBumpPackages
+
+  // #region - @generateReleaseNotes
+  /**
+   * @description Generates release notes based on grouped commits and the authors,
+   * with the `release.notes.template` template or the default layout.
+   * Depending on `release.notes.provider`, the notes generated by GitHub replace them or are appended.
+   * The notes from the commits are kept when GitHub fails to generate its own.
+   */
+  private async generateReleaseNotes(
+    options: Parameters<ReleaseService['getReleaseNotesContext']>[0] & {
+      to?: string;
+    }
+  ): Promise<string> {
+    const provider = this.config.release.notes?.provider ?? 'commits';
+    const githubNotes =
+      provider === 'commits' ? null : await this.getGitHubReleaseNotes(options);
+
+    if (provider === 'github' && githubNotes !== null) {
+      return githubNotes;
+    }
+
+    const context = await this.getReleaseNotesContext(options);
+    const templatePath = this.config.release.notes?.template;
+    let releaseNotes = '';
+
+    if (templatePath) {
+      this.releaseNotesTemplate ??= await readMdFile(templatePath);
+      releaseNotes = renderTemplate(this.releaseNotesTemplate, context);
+    } else {
+      releaseNotes = this.formatReleaseNotes(context);
+    }
+
+    return githubNotes
+      ? `${releaseNotes.trimEnd()}\n\n${githubNotes}`
+      : releaseNotes;
   }
   // #endregion - @generateReleaseNotes
 
-  // #region - @groupCommitsByType
+  // #region - @getGitHubReleaseNotes
   /**
-   * @description Groups commits by their conventional commit type.
-   */
-  private groupCommitsByType(commits: Commit[]): Record<CommitType, Commit[]> {
-    const grouped: Record<CommitType, Commit[]> = {
-      feat: [],
-      fix: [],
-      docs: [],
-      style: [],
-      refactor: [],
-      perf: [],
-      test: [],
-      chore: [],
-      revert: [],
-      other: [],
+   * @description Generates the release notes of a release with GitHub.
+   * GitHub compares the tag with the `to` ref of the release when set, the current branch otherwise.
+   * @param options The tag, previous tag and `to` ref of the release.
+   * @returns The notes, or null if GitHub failed to generate them.
+   */
+  private async getGitHubReleaseNotes({
+    tagName,
+    previousTag,
+    to,
+  }: {
+    tagName: string;
+    previousTag?: string;
+    to?: string;
+  }): Promise<string | null> {
+    try {
+      return await this.githubClient.generateReleaseNotes({
+        owner: this.repoInfo.owner,
+        repo: this.repoInfo.repo,
+        tagName,
+        targetCommitish: to ?? (await this.gitClient.getCurrentBranch()),
+        previousTagName: previousTag,
+        configurationFilePath: this.config.release.notes?.githubConfigFile,
+      });
+    } catch {
+      // e.g. a token without access to the API, or a previous tag GitHub doesn't know
+      return null;
+    }
+  }
+  // #endregion - @getGitHubReleaseNotes
+
+  // #region - @getReleaseNotesContext
+  /**
+   * @description Collects the data of the release notes of a release.
+   * Contributors are only looked up when they are shown or a template is used.
+   * @returns The context of the release notes templates.
+   */
+  private async getReleaseNotesContext({
+    name,
+    version,
+    tagName,
+    previousTag,
+    commits,
+    changeFiles = [],
+    dependencies = [],
+  }: {
+    name: string;
+    version: string;
+    tagName: string;
+    previousTag?: string;
+    commits: Commit[];
+    changeFiles?: ChangeFile[];
+    dependencies?: string[];
+  }): Promise<ReleaseNotesContext> {
+    const repositoryUrl = getRepositoryUrl(this.repoInfo);
+    const parsedCommits = this.analyzeCommits(commits);
+    const groupedCommits = this.groupCommitsByType(parsedCommits);
+    const authorLogins = await this.resolveAuthorLogins(commits);
+
+    const hasContributors =
+      this.config.release.notes?.contributors ||
+      Boolean(this.config.release.notes?.template);
+
+    return {
+      name,
+      version,
+      tag: tagName,
+      previousTag: previousTag ?? null,
+      date: new Date().toISOString().slice(0, 10),
+      compareUrl: previousTag ? this.getCompareUrl(previousTag, tagName) : null,
+      breakingChanges: parsedCommits
+        .filter(({ isBreaking }) => isBreaking)
+        .map(({ commit, scope, breakingDescription }) => ({
+          scope,
+          description: breakingDescription,
+          hash: commit.hash,
+          url: getCommitUrl(repositoryUrl, commit.hash),
+        })),
+      sections: this.commitTypes
+        .filter(
+          ({ type, hidden }) => !hidden && groupedCommits[type].length > 0
+        )
+        .map(({ type, label }) => ({
+          type,
+          label,
+          commits: groupedCommits[type].map((parsedCommit) => {
+            const login = authorLogins.get(parsedCommit.commit.author_email);
+
+            return {
+              hash: parsedCommit.commit.hash,
+              shortHash: parsedCommit.commit.hash.slice(0, 7),
+              url: getCommitUrl(repositoryUrl, parsedCommit.commit.hash),
+              type: parsedCommit.type,
+              scope: parsedCommit.scope,
+              description: parsedCommit.description,
+              body: parsedCommit.body,
+              isBreaking: parsedCommit.isBreaking,
+              author: login ? `@${login}` : parsedCommit.commit.author_name,
+              entry: this.formatCommitEntry(parsedCommit, authorLogins),
+            };
+          }),
+        })),
+      changes: changeFiles.map(({ bumps, summary }) => ({
+        summary,
+        bump: getHighestChangeBump(Object.values(bumps)),
+      })),
+      dependencies,
+      contributors: hasContributors
+        ? await this.getContributors(commits, authorLogins)
+        : [],
     };
+  }
+  // #endregion - @getReleaseNotesContext
 
-    for (const commit of commits) {
-      const commitMessage = commit.message;
-      const match = commitMessage.match(commitMessageRegex);
+  // #region - @formatReleaseNotes
+  /**
+   * @description Formats the default layout of the release notes.
+   * Breaking changes are listed first with their description.
+   * @param context The context of the release notes.
+   * @returns The release notes.
+   */
+  private formatReleaseNotes({
+    tag,
+    compareUrl,
+    breakingChanges,
+    changes,
+    sections,
+    dependencies,
+    contributors,
+  }: ReleaseNotesContext): string {
+    const title = `Release Notes for ${tag}`;
+    let releaseNotes = compareUrl
+      ? `## [${title}](${compareUrl})\n\n`
+      : `## ${title}\n\n`;
+
+    releaseNotes += this.formatNotesSection(
+      '⚠️ Breaking Changes',
+      breakingChanges.map(
+        ({ scope, description }) =>
+          `${scope ? `**${scope}:** ` : ''}${description}`
+      )
+    );
+
+    // Continuation lines of multiline summaries are indented under their list item
+    releaseNotes += this.formatNotesSection(
+      '📋 Changes',
+      changes.map(({ summary }) => summary.replaceAll('\n', '\n  '))
+    );
+
+    for (const { label, commits } of sections) {
+      releaseNotes += this.formatNotesSection(
+        label,
+        commits.map(({ entry }) => entry)
+      );
+    }
 
-      let type: CommitType = 'other';
-      if (match) {
-        type = match[1] as CommitType;
+    releaseNotes += this.formatNotesSection(
+      '📦 Dependencies',
+      dependencies.map((dependency) => `Updated \`${dependency}\``)
+    );
+
+    if (this.config.release.notes?.contributors) {
+      releaseNotes += this.formatNotesSection(
+        '❤️ Contributors',
+        contributors.map(({ name, firstContribution }) =>
+          firstContribution ? `${name} (🎉 first contribution)` : name
+        )
+      );
+    }
+
+    return releaseNotes;
+  }
+  // #endregion - @formatReleaseNotes
+
+  // #region - @formatCommitEntry
+  /**
+   * @description Formats a commit of the release notes with its linked hash, pull requests, author and closed issues.
+   * @param parsedCommit The parsed commit.
+   * @param authorLogins The GitHub logins by author email.
+   * @returns The entry of the commit.
+   */
+  private formatCommitEntry(
+    { commit, footers }: ParsedCommit,
+    authorLogins: Map<string, string | null>
+  ): string {
+    const repositoryUrl = getRepositoryUrl(this.repoInfo);
+
+    const login = authorLogins.get(commit.author_email);
+    const author = login ? `@${login}` : commit.author_name;
+
+    const closedIssues = footers
+      .filter(({ token }) => closingTokenRegex.test(token))
+      .flatMap(({ value }) => value.match(issueReferenceRegex) ?? [])
+      .map((reference) => linkIssue(repositoryUrl, reference));
+
+    let entry = `${linkPullRequests(repositoryUrl, commit.message)} (${linkCommit(repositoryUrl, commit.hash)})`;
+
+    if (author) {
+      entry += ` by ${author}`;
+    }
+
+    if (closedIssues.length > 0) {
+      entry += `, closes ${closedIssues.join(', ')}`;
+    }
+
+    return entry;
+  }
+  // #endregion - @formatCommitEntry
+
+  // #region - @getContributors
+  /**
+   * @description Lists the unique authors of a release, flagging the ones whose first commit to the repository is part of it.
+   * Authors matching `release.notes.ignoreAuthors` are left out.
+   * @param commits The commits of the release.
+   * @param authorLogins The GitHub logins by author email.
+   * @returns The contributors of the release.
+   */
+  private async getContributors(
+    commits: Commit[],
+    authorLogins: Map<string, string | null>
+  ): Promise<ReleaseNotesContributor[]> {
+    const ignoreAuthors = (
+      this.config.release.notes?.ignoreAuthors ?? ['dependabot', 'renovate']
+    ).map((author) => author.toLowerCase());
+
+    this.authorFirstCommits ??= await this.gitClient.getAuthorFirstCommits();
+
+    const hashes = new Set(commits.map(({ hash }) => hash));
+    const contributors = new Map<string, ReleaseNotesContributor>();
+
+    for (const { author_email, author_name } of commits) {
+      const login = authorLogins.get(author_email);
+      const name = login ? `@${login}` : author_name;
+
+      const isIgnored = [login, author_name, author_email].some(
+        (value) =>
+          value &&
+          ignoreAuthors.some((author) => value.toLowerCase().includes(author))
+      );
+
+      if (isIgnored || contributors.has(name)) {
+        continue;
       }
 
-      if (!grouped[type]) {
-        grouped[type] = [];
+      const isFirstContribution = hashes.has(
+        this.authorFirstCommits.get(author_email)
+      );
+
+      contributors.set(name, {
+        name,
+        login: login ?? null,
+        firstContribution: isFirstContribution,
+      });
+    }
+
+    return Array.from(contributors.values());
+  }
+  // #endregion - @getContributors
+
+  // #region - @resolveAuthorLogins
+  /**
+   * @description Resolves the GitHub logins of the authors of the commits, looking up a single commit per email.
+   * @param commits The commits of the release.
+   * @returns The logins by author email, null for emails that aren't linked to an account.
+   */
+  private async resolveAuthorLogins(
+    commits: Commit[]
+  ): Promise<Map<string, string | null>> {
+    const commitsByEmail = new Map<string, Commit>();
+
+    for (const commit of commits) {
+      if (!commitsByEmail.has(commit.author_email)) {
+        commitsByEmail.set(commit.author_email, commit);
       }
-      grouped[type].push(commit);
+    }
+
+    const logins = await Promise.all(
+      Array.from(commitsByEmail, async ([email, commit]) => {
+        const login = await this.githubClient.getAuthorLogin({
+          owner: this.repoInfo.owner,
+          repo: this.repoInfo.repo,
+          email,
+          sha: commit.hash,
+        });
+
+        return [email, login] as const;
+      })
+    );
+
+    return new Map(logins);
+  }
+  // #endregion - @resolveAuthorLogins
+
+  // #region - @formatNotesSection
+  /**
+   * @description Formats a section of the release notes as a list.
+   * @param title The title of the section.
+   * @param items The items of the list.
+   * @returns The section, or an empty string when there are no items.
+   */
+  private formatNotesSection(title: string, items: string[]): string {
+    if (items.length === 0) {
+      return '';
+    }
+
+    return `### ${title}\n${items.map((item) => `- ${item}\n`).join('')}\n`;
+  }
+  // #endregion - @formatNotesSection
+
+  // #region - @analyzeCommits
+  /**
+   * @description Parses the commits of a release with the commit convention.
+   * Reverts of commits in the same release cancel out, other reverts are kept as `revert` commits.
+   * @param commits The commits of the release.
+   * @returns The parsed commits that are part of the release.
+   */
+  private analyzeCommits(commits: Commit[]): ParsedCommit[] {
+    return cancelRevertedCommits(
+      commits.map((commit) => parseCommit(commit, this.commitConvention))
+    );
+  }
+  // #endregion - @analyzeCommits
+
+  // #region - @groupCommitsByType
+  /**
+   * @description Groups parsed commits by their configured commit type.
+   */
+  private groupCommitsByType(
+    parsedCommits: ParsedCommit[]
+  ): Record<string, ParsedCommit[]> {
+    const grouped: Record<string, ParsedCommit[]> = Object.fromEntries(
+      this.commitTypes.map(({ type }) => [type, []])
+    );
+
+    for (const parsedCommit of parsedCommits) {
+      grouped[this.getCommitType(parsedCommit).type].push(parsedCommit);
     }
 
     return grouped;
   }
   // #endregion - @groupCommitsByType
 
-  // #region - @getCommitTypeLabel
-  /**
-   * @description Gets a human-readable label for a commit type.
-   * @param type The commit type.
-   * @returns The human-readable label.
-   */
-  private getCommitTypeLabel(type: string): string {
-    const labels: Record<string, string> = {
-      feat: '🚀 Features',
-      fix: '🐛 Bug Fixes',
-      perf: '⚡ Performance Improvements',
-      refactor: '♻️ Code Refactoring',
-      docs: '📚 Documentation',
-      style: '💄 Styles',
-      test: '🧪 Tests',
-      chore: '🔧 Chores',
-      other: '📝 Other Changes',
-    };
-
-    return labels[type] || '📝 Other Changes';
+  // #region - @getCommitType
+  /**
+   * @description Gets the configuration of the type of a commit. Types that aren't configured fall back to `other`.
+   * @param parsedCommit The parsed commit.
+   * @returns The commit type configuration.
+   */
+  private getCommitType(parsedCommit: ParsedCommit): ResolvedCommitType {
+    return (
+      this.commitTypes.find(({ type }) => type === parsedCommit.type) ??
+      this.commitTypes.find(({ type }) => type === 'other')
+    );
   }
-  // #endregion - @getCommitTypeLabel
+  // #endregion - @getCommitType
 }
 
 export default ReleaseService;
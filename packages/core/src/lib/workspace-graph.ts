@@ -0,0 +1,111 @@
+/**
+ * @name WorkspaceGraph
+ * @file src/lib/workspace-graph.ts
+ * @description Class to manage the dependency graph between the packages of a workspace
+ */
+
+import type { WorkspaceGraphNode } from '@/types/workspace-graph';
+
+class WorkspaceGraph {
+  private nodes = new Map<string, WorkspaceGraphNode>();
+  private dependents = new Map<string, Set<string>>();
+
+  constructor(nodes: WorkspaceGraphNode[]) {
+    for (const node of nodes) {
+      this.nodes.set(node.name, node);
+      this.dependents.set(node.name, new Set());
+    }
+
+    // Only keep the edges between packages of the workspace
+    for (const node of nodes) {
+      for (const dependency of node.dependencies) {
+        this.dependents.get(dependency)?.add(node.name);
+      }
+    }
+  }
+
+  // #region - @getDependencies
+  /**
+   * @description Gets the workspace packages a package depends on.
+   * @param name The name of the package.
+   * @returns The names of its internal dependencies.
+   */
+  getDependencies(name: string): string[] {
+    return (this.nodes.get(name)?.dependencies ?? []).filter((dependency) =>
+      this.nodes.has(dependency)
+    );
+  }
+  // #endregion - @getDependencies
+
+  // #region - @getDependents
+  /**
+   * @description Gets the workspace packages that directly depend on a package.
+   * @param name The name of the package.
+   * @returns The names of its direct dependents.
+   */
+  getDependents(name: string): string[] {
+    return Array.from(this.dependents.get(name) ?? []);
+  }
+  // #endregion - @getDependents
+
+  // #region - @getTransitiveDependents
+  /**
+   * @description Gets every workspace package that depends, directly or not, on any of the given packages.
+   * @param names The names of the packages.
+   * @returns The names of the dependents, excluding the given packages.
+   */
+  getTransitiveDependents(names: string[]): string[] {
+    const visited = new Set(names);
+    const queue = [...names];
+    const found: string[] = [];
+
+    while (queue.length > 0) {
+      const current = queue.shift();
+
+      for (const dependent of this.getDependents(current)) {
+        if (!visited.has(dependent)) {
+          visited.add(dependent);
+          found.push(dependent);
+          queue.push(dependent);
+        }
+      }
+    }
+
+    return found;
+  }
+  // #endregion - @getTransitiveDependents
+
+  // #region - @sort
+  /**
+   * @description Sorts packages so that dependencies come before their dependents.
+   * Packages that are part of a cycle keep their original order at the end.
+   * @param names The names of the packages to sort.
+   * @returns The names in topological order.
+   */
+  sort(names: string[]): string[] {
+    const pending = new Set(names);
+    const sorted: string[] = [];
+
+    while (pending.size > 0) {
+      const ready = Array.from(pending).filter((name) =>
+        this.getDependencies(name).every(
+          (dependency) => !pending.has(dependency)
+        )
+      );
+
+      if (ready.length === 0) {
+        break;
+      }
+
+      for (const name of ready) {
+        pending.delete(name);
+        sorted.push(name);
+      }
+    }
+
+    return [...sorted, ...pending];
+  }
+  // #endregion - @sort
+}
+
+export default WorkspaceGraph;
@@ -1,5 +1,16 @@
+import { isCalverFormat } from '@utils/calver';
 import { z } from 'zod';
 
+const isCommitPattern = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern, 'u');
+  } catch {
+    return false;
+  }
+
+  return pattern.includes('(?<type>') && pattern.includes('(?<description>');
+};
+
 export const configSchema = z.object({
   $schema: z
     .string()
@@ -34,24 +45,229 @@ export const configSchema = z.object({
         .describe('The workspaces in the project'),
     })
     .describe('Project configuration'),
-  release: z.object({
-    strategy: z
-      .enum(['auto', 'manual'])
-      .default('auto')
-      .describe(
-        'The release strategy to use. Auto means releases are managed automatically, manual means you control when releases happen.'
-      ),
-    versioningStrategy: z
-      .enum(['fixed', 'independent'])
-      .default('fixed')
-      .describe(
-        'The versioning strategy to use. Fixed means all packages share the same version, independent means each package can have its own version.'
-      ),
-    preReleaseIdentifier: z
-      .string()
-      .default('beta')
-      .describe(
-        'An optional pre-release identifier to append to versions, e.g., "alpha", "beta", etc.'
-      ),
-  }),
+  release: z
+    .object({
+      strategy: z
+        .enum(['auto', 'manual'])
+        .default('auto')
+        .describe(
+          'The release strategy to use. Auto means releases are managed automatically, manual means you control when releases happen.'
+        ),
+      versioningStrategy: z
+        .enum(['fixed', 'independent'])
+        .default('fixed')
+        .describe(
+          'The versioning strategy to use. Fixed means all packages share the same version, independent means each package can have its own version.'
+        ),
+      preReleaseIdentifier: z
+        .string()
+        .default('beta')
+        .describe(
+          'The pre-release identifier used by the premajor, preminor, prepatch and prerelease types, e.g., "alpha", "beta", etc. It can be overridden with --preid.'
+        ),
+      versionScheme: z
+        .enum(['semver', 'calver'])
+        .default('semver')
+        .optional()
+        .describe(
+          'How versions are incremented: semantic versioning from the bump, or calendar versioning from the release date and release.calverFormat. With calver, the bump only decides whether there is something to release.'
+        ),
+      calverFormat: z
+        .string()
+        .refine(isCalverFormat, {
+          message:
+            'The CalVer format must be dot-separated YYYY, YY, 0Y, MM, 0M, WW, 0W, DD or 0D tokens ending with MICRO',
+        })
+        .default('YYYY.MM.MICRO')
+        .optional()
+        .describe(
+          'The format of calendar versions, e.g. "YYYY.MM.MICRO" or "YY.0W.MICRO". YY is the year since 2000, WW the ISO week, 0-prefixed tokens are zero-padded and MICRO counts the releases of the same period.'
+        ),
+      dependentBump: z
+        .enum(['major', 'minor', 'patch', 'none'])
+        .default('patch')
+        .optional()
+        .describe(
+          'The bump applied in independent versioning to packages whose workspace dependencies are released. None only rewrites their dependency ranges.'
+        ),
+      groups: z
+        .array(
+          z.object({
+            name: z
+              .string()
+              .min(1)
+              .describe(
+                'The name of the group, used in its tags and release notes instead of the package names'
+              ),
+            workspaces: z
+              .array(z.string())
+              .min(1)
+              .describe(
+                'The globs of the workspaces of the group, e.g. "packages/ui-*"'
+              ),
+          })
+        )
+        .optional()
+        .describe(
+          'Lockstep groups in independent versioning: the packages of a group always share their version and bump, and are released with a single tag and GitHub release. The other packages keep their own version.'
+        ),
+      changelog: z
+        .boolean()
+        .default(true)
+        .optional()
+        .describe(
+          'Whether each release prepends its notes to CHANGELOG.md, and to the changelog of each released package in independent versioning.'
+        ),
+      manifest: z
+        .boolean()
+        .default(true)
+        .optional()
+        .describe(
+          'Whether the released versions and tags are recorded in .orbit-it/manifest.json by the release commit. When present, the manifest is the source of truth of the current versions.'
+        ),
+      mode: z
+        .enum(['direct', 'pr'])
+        .default('direct')
+        .optional()
+        .describe(
+          'How releases land: "direct" commits, tags and pushes to the current branch, "pr" opens or updates a release pull request from the orbit-it/release branch and publishes the tags and GitHub releases once it is merged.'
+        ),
+      commitMessage: z
+        .string()
+        .default('chore(release): {tags}')
+        .optional()
+        .describe(
+          'The message of the release commit. {tags} and {version} are replaced with the released tags and versions.'
+        ),
+      commitTypes: z
+        .record(
+          z.string(),
+          z.object({
+            label: z
+              .string()
+              .optional()
+              .describe('The title of the section in the release notes'),
+            hidden: z
+              .boolean()
+              .optional()
+              .describe(
+                'Whether the commits of this type are left out of the release notes. They still trigger their bump.'
+              ),
+            order: z
+              .number()
+              .optional()
+              .describe(
+                'The position of the section in the release notes. Types without an order come before "other".'
+              ),
+            bump: z
+              .enum(['major', 'minor', 'patch', 'none'])
+              .optional()
+              .describe(
+                'The bump triggered by commits of this type when the release type is inferred'
+              ),
+          })
+        )
+        .optional()
+        .describe(
+          'The commit types by name, merged with the defaults (feat, fix, docs, style, refactor, perf, test, chore, revert and other). Commits with a type that is not listed are grouped as "other".'
+        ),
+      commitConvention: z
+        .union([
+          z.enum(['conventional', 'angular', 'gitmoji']),
+          z.object({
+            preset: z.literal('custom'),
+            pattern: z
+              .string()
+              .refine(isCommitPattern, {
+                message:
+                  'The pattern must be a valid regular expression with "type" and "description" named groups',
+              })
+              .describe(
+                'The regular expression matching the commit subjects, with "type" and "description" named groups and optional "scope" and "breaking" groups'
+              ),
+            types: z
+              .record(z.string(), z.string())
+              .optional()
+              .describe(
+                'The matched types mapped to commit types, e.g. { "FEATURE": "feat" }'
+              ),
+          }),
+        ])
+        .default('conventional')
+        .optional()
+        .describe(
+          'How commit subjects are parsed: a preset (conventional, angular or gitmoji) or a custom pattern.'
+        ),
+      commitCollection: z
+        .enum(['all', 'first-parent', 'no-merges', 'pull-request-titles'])
+        .default('all')
+        .optional()
+        .describe(
+          'Which commits make a release: all of them, only the commits of the released branch (first-parent), all but merge commits (no-merges), or the commits of the released branch with the pull request title as subject of GitHub merge commits (pull-request-titles).'
+        ),
+      changeSource: z
+        .enum(['commits', 'files', 'both'])
+        .default('both')
+        .optional()
+        .describe(
+          'What decides the bumps and release notes: the conventional commits, the change files written with `orbit-it change` under `.orbit-it/changes/`, or both.'
+        ),
+      notes: z
+        .object({
+          contributors: z
+            .boolean()
+            .default(false)
+            .optional()
+            .describe(
+              'Whether the release notes thank the authors of the release, flagging their first contribution'
+            ),
+          ignoreAuthors: z
+            .array(z.string())
+            .default(['dependabot', 'renovate'])
+            .optional()
+            .describe(
+              'Authors left out of the contributors, matched against their GitHub login, name or email (case-insensitive)'
+            ),
+          provider: z
+            .enum(['commits', 'github', 'both'])
+            .default('commits')
+            .optional()
+            .describe(
+              'Where the release notes come from: the parsed commits, the notes generated by GitHub from the merged pull requests, or both with the GitHub notes appended'
+            ),
+          githubConfigFile: z
+            .string()
+            .optional()
+            .describe(
+              'The path in the repository of the configuration of the notes generated by GitHub, e.g. its categories. GitHub reads .github/release.yml by default.'
+            ),
+          template: z
+            .string()
+            .optional()
+            .describe(
+              'The path of a template file replacing the default layout of the release notes, relative to the working directory. It is validated when the configuration is loaded.'
+            ),
+        })
+        .optional()
+        .describe('Release notes configuration'),
+      tagFormat: z
+        .string()
+        .refine((tagFormat) => tagFormat.split('{version}').length === 2, {
+          message: 'The tag format must contain {version} exactly once',
+        })
+        .optional()
+        .describe(
+          'The template of the tag names, e.g. "release-{version}" or "{name}/v{version}". {name}, {version} and {major} are replaced. Defaults to "v{version}" in fixed versioning and "{name}@{version}" in independent versioning.'
+        ),
+    })
+    .refine(
+      ({ tagFormat, versioningStrategy }) =>
+        !tagFormat ||
+        versioningStrategy !== 'independent' ||
+        tagFormat.includes('{name}'),
+      {
+        message: 'The tag format must contain {name} in independent versioning',
+        path: ['tagFormat'],
+      }
+    ),
 });
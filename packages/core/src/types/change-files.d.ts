@@ -0,0 +1,13 @@
+/**
+ * @description The bump a change file requests for a package.
+ */
+export type ChangeBump = 'major' | 'minor' | 'patch';
+
+/**
+ * @description A release intent recorded with `orbit-it change` under `.orbit-it/changes/`.
+ */
+export type ChangeFile = {
+  path: string;
+  bumps: Record<string, ChangeBump>; // package name → bump
+  summary: string; // the user-facing description of the change, in Markdown
+};
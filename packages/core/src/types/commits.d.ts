@@ -0,0 +1,66 @@
+import type { Commit } from '@/types/git-client';
+
+/**
+ * @description A footer of a conventional commit, e.g. `Closes: #12` or `BREAKING CHANGE: ...`.
+ */
+export type CommitFooter = {
+  token: string;
+  value: string;
+};
+
+/**
+ * @description A commit parsed with the conventional commits specification.
+ * Commits that don't follow it have the `other` type and their subject as description.
+ */
+export type ParsedCommit = {
+  commit: Commit;
+  type: string;
+  scope: string | null;
+  isBreaking: boolean;
+  breakingDescription: string | null; // the BREAKING CHANGE footer, or the description for `type!:`
+  description: string;
+  body: string; // without the footers
+  footers: CommitFooter[];
+  references: string[]; // referenced issues and pull requests, e.g. `#12` or `owner/repo#12`
+  revertedHash: string | null; // from the `This reverts commit <sha>` line of revert commits
+};
+
+/**
+ * @description How a commit type appears in the release notes and which bump it triggers.
+ */
+export type CommitTypeOptions = {
+  label: string;
+  hidden: boolean;
+  order: number;
+  bump: 'major' | 'minor' | 'patch' | 'none';
+};
+
+/**
+ * @description A commit type merged from the defaults and the `release.commitTypes` configuration.
+ */
+export type ResolvedCommitType = CommitTypeOptions & {
+  type: string;
+};
+
+/**
+ * @description How commit subjects are parsed. The pattern has `type` and `description` named groups,
+ * and optionally `scope` and `breaking`. The matched types are mapped to commit types.
+ */
+export type CommitConvention = {
+  pattern: RegExp;
+  types: Record<string, string>; // matched type → commit type, unmapped types are kept as is
+  breakingTypes: string[]; // matched types that are breaking changes, e.g. 💥 in gitmoji
+};
+
+/**
+ * @description The `release.commitConvention` configuration: a preset or a custom pattern.
+ */
+export type CommitConventionOptions =
+  | 'conventional'
+  | 'angular'
+  | 'gitmoji'
+  | {
+      preset: 'custom';
+      pattern: string;
+      types?: Record<string, string>;
+    };
@@ -0,0 +1,8 @@
+/**
+ * @description A file edit with its content before and after. A null content means the file doesn't exist.
+ */
+export type FileChange = {
+  path: string;
+  before: string | null;
+  after: string | null;
+};
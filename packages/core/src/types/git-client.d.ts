@@ -12,7 +12,8 @@ import type {
 export type Commit = DefaultLogFields & ListLogLine;
 
 /**
- * @description The type of commit message prefixes used in conventional commits.
+ * @description The commit message prefixes of conventional commits known by default.
+ * More types can be added with `release.commitTypes`.
  */
 export type CommitType =
   | 'feat'
@@ -52,6 +53,10 @@ export type GetStatusResult = StatusResult | null;
 export type GetCommitOptions =
   | {
       from?: string;
+      to?: string; // defaults to HEAD
+      paths?: string[];
+      firstParent?: boolean; // only follow the first parent of merge commits
+      noMerges?: boolean;
     }
   | undefined;
 
@@ -65,6 +70,11 @@ export type GetCommitsResult = Commit[] | null;
  */
 export type GetCommitFilesResult = string[] | null;
 
+/**
+ * @description The hash of the first commit of each author, by author email.
+ */
+export type GetAuthorFirstCommitsResult = Map<string, string>;
+
 /**
  * @description The result of getting the owner and repository name from a remote URL.
  */
@@ -93,6 +103,14 @@ export type CommitChangesOptions = {
   scope?: string;
 };
 
+/**
+ * @description The options for committing files with a raw message.
+ */
+export type CommitFilesOptions = {
+  message: string;
+  files: string[];
+};
+
 /**
  * @description The result of committing changes.
  */
@@ -103,12 +121,18 @@ export type CommitChangesResult = CommitResult | null;
  */
 export type GetTagsResult = TagResult | null;
 
+/**
+ * @description The tags reachable from a ref.
+ */
+export type GetReachableTagsResult = string[];
+
 /**
  * @description The options for creating a tag.
  */
 export type CreateTagOptions = {
   tagName: string;
   tagMessage?: string;
+  ref?: string; // defaults to HEAD
 };
 
 /**
@@ -45,3 +45,87 @@ export type ListReleasesResult =
  * @description The result of checking if a repository exists.
  */
 export type CheckRepoExistsResult = boolean;
+
+/**
+ * @description The options for resolving the GitHub login of a commit author.
+ */
+export type GetAuthorLoginOptions = {
+  owner: string;
+  repo: string;
+  email: string;
+  sha: string; // a commit of the author, used to look them up
+};
+
+/**
+ * @description The GitHub login of a commit author, null if the email isn't linked to an account.
+ */
+export type GetAuthorLoginResult = string | null;
+
+/**
+ * @description The options for generating release notes with GitHub.
+ */
+export type GenerateReleaseNotesOptions = {
+  owner: string;
+  repo: string;
+  tagName: string; // the tag doesn't need to exist yet
+  targetCommitish: string; // the branch or commit the tag will point to
+  previousTagName?: string; // GitHub picks the latest release when omitted
+  configurationFilePath?: string; // defaults to `.github/release.yml`
+};
+
+/**
+ * @description The Markdown body of the release notes generated by GitHub.
+ */
+export type GenerateReleaseNotesResult = string;
+
+/**
+ * @description The options for finding the pull request of a branch.
+ */
+export type FindPullRequestOptions = {
+  owner: string;
+  repo: string;
+  head: string; // the branch of the pull request, without the owner
+  state: 'open' | 'merged';
+};
+
+/**
+ * @description The pull request found for a branch, null if there is none.
+ */
+export type FindPullRequestResult =
+  | RestEndpointMethodTypes['pulls']['list']['response']['data'][number]
+  | null;
+
+/**
+ * @description The options for creating a pull request.
+ */
+export type CreatePullRequestOptions = {
+  owner: string;
+  repo: string;
+  head: string;
+  base: string;
+  title: string;
+  body: string;
+};
+
+/**
+ * @description The result of creating a pull request.
+ */
+export type CreatePullRequestResult =
+  RestEndpointMethodTypes['pulls']['create']['response']['data'];
+
+/**
+ * @description The options for updating the title and body of a pull request.
+ */
+export type UpdatePullRequestOptions = {
+  owner: string;
+  repo: string;
+  pullNumber: number;
+  title: string;
+  body: string;
+};
+
+/**
+ * @description The result of updating a pull request.
+ */
+export type UpdatePullRequestResult =
+  RestEndpointMethodTypes['pulls']['update']['response']['data'];
@@ -0,0 +1,14 @@
+/**
+ * @description The last release of a package, or of the project in fixed versioning.
+ */
+export type ManifestEntry = {
+  version: string;
+  tag: string | null; // null when the version was never released
+};
+
+/**
+ * @description The versions manifest kept in `.orbit-it/manifest.json`, the source of truth of the current versions.
+ */
+export type VersionsManifest = {
+  packages: Record<string, ManifestEntry>; // package or project name → last release
+};
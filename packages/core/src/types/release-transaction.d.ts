@@ -0,0 +1,50 @@
+/**
+ * @description A side effect performed during a release that can be undone on failure.
+ */
+export type ReleaseTransactionStep =
+  | {
+      type: 'file';
+      filePath: string;
+      previousContent: string | null;
+    }
+  | {
+      type: 'commit';
+      previousCommit: string;
+    }
+  | {
+      type: 'checkout';
+      previousBranch: string;
+    }
+  | {
+      type: 'tag';
+      tagName: string;
+    }
+  | {
+      type: 'push-tags';
+      tagNames: string[];
+    }
+  | {
+      type: 'push-branch';
+      branchName: string;
+    }
+  | {
+      type: 'release';
+      releaseId: number;
+      tagName: string;
+    };
+
+/**
+ * @description The options for creating a release transaction.
+ */
+export type ReleaseTransactionOptions = {
+  owner: string;
+  repo: string;
+};
+
+/**
+ * @description The outcome of rolling back a release transaction.
+ */
+export type RollbackResult = {
+  rolledBack: string[];
+  failed: string[];
+};
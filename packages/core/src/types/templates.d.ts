@@ -0,0 +1,77 @@
+/**
+ * @description A parsed template: text, `{{path}}` variables, `{{#each path}}` loops and `{{#if path}}` conditionals.
+ */
+export type TemplateNode =
+  | { kind: 'text'; value: string }
+  | { kind: 'variable'; path: string[]; line: number }
+  | { kind: 'each'; path: string[]; line: number; children: TemplateNode[] }
+  | {
+      kind: 'if';
+      path: string[];
+      line: number;
+      children: TemplateNode[];
+      elseChildren: TemplateNode[];
+    };
+
+/**
+ * @description The fields a template can use: `value` for printable values,
+ * a single-item tuple for lists and an object for nested fields.
+ */
+export type TemplateShape =
+  | 'value'
+  | readonly [TemplateShape]
+  | { readonly [field: string]: TemplateShape };
+
+/**
+ * @description The data a release notes template is rendered with.
+ */
+export type ReleaseNotesContext = {
+  name: string; // the released package, or the repository in fixed versioning
+  version: string;
+  tag: string;
+  previousTag: string | null; // null on the first release
+  date: string; // YYYY-MM-DD
+  compareUrl: string | null;
+  breakingChanges: {
+    scope: string | null;
+    description: string;
+    hash: string;
+    url: string;
+  }[];
+  sections: {
+    type: string;
+    label: string;
+    commits: ReleaseNotesCommit[];
+  }[]; // the visible commit types with commits, in order
+  changes: {
+    summary: string;
+    bump: string;
+  }[]; // the change files of the release
+  dependencies: string[]; // the updated internal dependencies
+  contributors: ReleaseNotesContributor[];
+};
+
+/**
+ * @description A commit of a release notes template.
+ */
+export type ReleaseNotesCommit = {
+  hash: string;
+  shortHash: string;
+  url: string;
+  type: string;
+  scope: string | null;
+  description: string;
+  body: string;
+  isBreaking: boolean;
+  author: string; // the `@login`, or the author name without a GitHub account
+  entry: string; // the default entry with the linked pull requests, hash, author and closed issues
+};
+
+/**
+ * @description An author of a release.
+ */
+export type ReleaseNotesContributor = {
+  name: string; // the `@login`, or the author name without a GitHub account
+  login: string | null;
+  firstContribution: boolean;
+};
@@ -0,0 +1,26 @@
+/**
+ * @description A package of the workspace and the names of the packages it depends on.
+ */
+export type WorkspaceGraphNode = {
+  name: string;
+  dependencies: string[];
+};
+
+/**
+ * @description The dependency sections of a package.json that can reference workspace packages.
+ */
+export type DependencySection =
+  | 'dependencies'
+  | 'devDependencies'
+  | 'peerDependencies';
+
+/**
+ * @description A workspace package resolved from `config.project.workspaces`.
+ */
+export type WorkspacePackage = {
+  name: string;
+  version: string;
+  directory: string;
+  packagePath: string;
+  dependencies: string[];
+};
@@ -1,3 +1,15 @@
+export * from '@utils/calver';
+export * from '@utils/change-files';
+export * from '@utils/changelog';
+export * from '@utils/commits';
 export * from '@utils/errors';
 export * from '@utils/files';
+export * from '@utils/links';
+export * from '@utils/manifest';
 export * from '@utils/paths';
+export * from '@utils/promises';
+export * from '@utils/pull-requests';
+export * from '@utils/tags';
+export * from '@utils/templates';
+export * from '@utils/versions';
+export * from '@utils/workspaces';
@@ -0,0 +1,120 @@
+const calverTokenRegex = /^(YYYY|YY|0Y|MM|0M|WW|0W|DD|0D|MICRO)$/;
+const calverVersionRegex = /^\d+(\.\d+)*$/;
+
+const dayInMilliseconds = 86_400_000;
+
+/**
+ * @description The CalVer format used when `release.calverFormat` is not set.
+ */
+export const defaultCalverFormat = 'YYYY.MM.MICRO';
+
+/**
+ * @description Checks a CalVer format: dot-separated tokens (`YYYY`, `YY`, `0Y`, `MM`, `0M`, `WW`, `0W`, `DD`, `0D`),
+ * ending with the `MICRO` counter.
+ * @param format - The CalVer format, e.g. `YY.0W.MICRO`
+ * @returns Whether the format is valid
+ */
+export const isCalverFormat = (format: string): boolean => {
+  const tokens = format.split('.');
+
+  return (
+    tokens.length > 1 &&
+    tokens.every((token) => calverTokenRegex.test(token)) &&
+    tokens.indexOf('MICRO') === tokens.length - 1
+  );
+};
+
+/**
+ * @description Checks that a version has as many numeric segments as a CalVer format has tokens.
+ * @param format - The CalVer format
+ * @param version - The version to check
+ * @returns Whether the version fits the format
+ */
+export const isCalverVersion = (format: string, version: string): boolean =>
+  calverVersionRegex.test(version) &&
+  version.split('.').length === format.split('.').length;
+
+/**
+ * @description Gets the ISO 8601 week of a date, whose year can differ from the calendar year around New Year.
+ * @param date - The date
+ * @returns The week year and the week number
+ */
+const getIsoWeek = (date: Date): { year: number; week: number } => {
+  const thursday = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+
+  // The week belongs to the year of its Thursday
+  thursday.setUTCDate(
+    thursday.getUTCDate() + 3 - ((thursday.getUTCDay() + 6) % 7)
+  );
+
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+
+  return {
+    year: thursday.getUTCFullYear(),
+    week:
+      Math.floor((thursday.getTime() - yearStart) / dayInMilliseconds / 7) + 1,
+  };
+};
+
+/**
+ * @description Renders a date token of a CalVer format. Short years count from 2000, `0` tokens are zero-padded.
+ * @param token - The token, e.g. `0M`
+ * @param date - The release date
+ * @param hasWeek - Whether the format uses weeks, so that years are ISO week years
+ * @returns The segment of the version
+ */
+const formatCalverToken = (
+  token: string,
+  date: Date,
+  hasWeek: boolean
+): string => {
+  const { year: weekYear, week } = getIsoWeek(date);
+  const year = hasWeek ? weekYear : date.getUTCFullYear();
+  const month = date.getUTCMonth() + 1;
+  const day = date.getUTCDate();
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  const segments: Record<string, string> = {
+    YYYY: String(year),
+    YY: String(year - 2000),
+    '0Y': pad(year - 2000),
+    MM: String(month),
+    '0M': pad(month),
+    WW: String(week),
+    '0W': pad(week),
+    DD: String(day),
+    '0D': pad(day),
+  };
+
+  return segments[token];
+};
+
+/**
+ * @description Computes the next calendar version: the date segments of the release date,
+ * with the `MICRO` counter incremented within the same period and reset to 0 in a new one.
+ * @param format - The CalVer format, e.g. `YYYY.MM.MICRO`
+ * @param version - The previous version
+ * @param date - The release date, in UTC
+ * @returns The next version
+ */
+export const incrementCalver = (
+  format: string,
+  version: string,
+  date: Date
+): string => {
+  const tokens = format.split('.');
+  const hasWeek = tokens.some((token) => token.endsWith('W'));
+  const period = tokens
+    .slice(0, -1)
+    .map((token) => formatCalverToken(token, date, hasWeek))
+    .join('.');
+
+  const segments = version.split('.');
+  const isSamePeriod =
+    isCalverVersion(format, version) &&
+    segments.slice(0, -1).join('.') === period;
+
+  return `${period}.${isSamePeriod ? Number(segments.at(-1)) + 1 : 0}`;
+};
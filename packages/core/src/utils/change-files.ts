@@ -0,0 +1,108 @@
+import { randomBytes } from 'node:crypto';
+import type { ChangeBump, ChangeFile } from '@/types/change-files';
+
+const frontmatterRegex = /^---\r?\n(?<frontmatter>[\s\S]*?)\r?\n---\r?\n?/;
+const bumpLineRegex =
+  /^["']?(?<name>[^"']+?)["']?\s*:\s*(?<bump>major|minor|patch)$/;
+const slugSeparatorRegex = /[^a-z0-9]+/g;
+const slugEdgesRegex = /^-+|-+$/g;
+
+/**
+ * @description The directory of the change files, relative to the root of the repository.
+ */
+export const changeFilesDirectory = '.orbit-it/changes';
+
+/**
+ * @description The bumps from the lowest to the highest.
+ */
+export const changeBumps: ChangeBump[] = ['patch', 'minor', 'major'];
+
+/**
+ * @description Formats a change file: the bumps by package as frontmatter, followed by the summary.
+ * @param bumps - The bump of each changed package
+ * @param summary - The description of the change
+ * @returns The content of the change file
+ */
+export const formatChangeFile = ({
+  bumps,
+  summary,
+}: Pick<ChangeFile, 'bumps' | 'summary'>): string => {
+  const frontmatter = Object.entries(bumps)
+    .map(([name, bump]) => `"${name}": ${bump}`)
+    .join('\n');
+
+  return `---\n${frontmatter}\n---\n\n${summary.trim()}\n`;
+};
+
+/**
+ * @description Parses a change file.
+ * @param path - The path of the change file
+ * @param content - The content of the change file
+ * @returns The change, or null if the frontmatter is missing or has an invalid line
+ */
+export const parseChangeFile = (
+  path: string,
+  content: string
+): ChangeFile | null => {
+  const match = content.match(frontmatterRegex);
+
+  if (!match) {
+    return null;
+  }
+
+  const bumps: Record<string, ChangeBump> = {};
+
+  for (const line of match.groups.frontmatter.split('\n')) {
+    if (line.trim() === '') {
+      continue;
+    }
+
+    const bumpLine = line.trim().match(bumpLineRegex);
+
+    if (!bumpLine) {
+      return null;
+    }
+
+    bumps[bumpLine.groups.name] = bumpLine.groups.bump as ChangeBump;
+  }
+
+  return {
+    path,
+    bumps,
+    summary: content.slice(match[0].length).trim(),
+  };
+};
+
+/**
+ * @description Gets the highest of bumps.
+ * @param bumps - The bumps to compare
+ * @returns The highest bump, or null if there is none
+ */
+export const getHighestChangeBump = (bumps: ChangeBump[]): ChangeBump | null =>
+  bumps.reduce<ChangeBump | null>(
+    (highest, bump) =>
+      highest && changeBumps.indexOf(highest) >= changeBumps.indexOf(bump)
+        ? highest
+        : bump,
+    null
+  );
+
+/**
+ * @description Names a new change file after the first words of its summary, with a random suffix to avoid conflicts.
+ * @param summary - The description of the change
+ * @returns The file name, e.g. `add-a-flag-3f9a1c.md`
+ */
+export const createChangeFileName = (summary: string): string => {
+  const slug = summary
+    .toLowerCase()
+    .split('\n')[0]
+    .replace(slugSeparatorRegex, '-')
+    .replace(slugEdgesRegex, '')
+    .split('-')
+    .slice(0, 6)
+    .join('-');
+
+  const suffix = randomBytes(3).toString('hex');
+
+  return slug ? `${slug}-${suffix}.md` : `change-${suffix}.md`;
+};
@@ -0,0 +1,86 @@
+const notesHeadingRegex = /^## .*\n+/;
+const regexSpecialCharsRegex = /[.*+?^${}()|[\]\\]/g;
+const sectionHeadingRegex = /^## /m;
+
+/**
+ * @description The file name of the changelogs maintained by releases.
+ */
+export const changelogFileName = 'CHANGELOG.md';
+
+/**
+ * @description The header of a new changelog.
+ */
+export const changelogHeader =
+  '# Changelog\n\nAll notable changes to this project will be documented in this file.\n';
+
+/**
+ * @description Formats a dated changelog section from the release notes.
+ * The top-level heading of the notes is replaced with the section heading.
+ * @param title - The title of the section, e.g. `1.2.0` or `pkg@1.2.0`
+ * @param date - The release date as `YYYY-MM-DD`
+ * @param notes - The release notes
+ * @param compareUrl - The link to the changes since the previous release (optional)
+ * @returns The changelog section
+ */
+export const formatChangelogSection = ({
+  title,
+  date,
+  notes,
+  compareUrl,
+}: {
+  title: string;
+  date: string;
+  notes: string;
+  compareUrl?: string;
+}): string => {
+  const heading = compareUrl
+    ? `## [${title}](${compareUrl}) (${date})`
+    : `## ${title} (${date})`;
+
+  const body = notes.replace(notesHeadingRegex, '').trim();
+
+  return body ? `${heading}\n\n${body}\n` : `${heading}\n`;
+};
+
+/**
+ * @description Checks if a changelog already has a section for a title.
+ * @param content - The content of the changelog
+ * @param title - The title of the section, e.g. `1.2.0` or `pkg@1.2.0`
+ * @returns True if the section exists
+ */
+export const hasChangelogSection = (
+  content: string,
+  title: string
+): boolean => {
+  const escapedTitle = title.replace(regexSpecialCharsRegex, '\\$&');
+
+  return new RegExp(`^## \\[?${escapedTitle}[\\] ]`, 'm').test(content);
+};
+
+/**
+ * @description Adds a section above the previous releases of a changelog, keeping its existing content.
+ * A changelog already containing the section is returned unchanged.
+ * @param content - The content of the changelog, null if it doesn't exist yet
+ * @param title - The title of the section, e.g. `1.2.0` or `pkg@1.2.0`
+ * @param section - The formatted section
+ * @returns The updated changelog
+ */
+export const prependChangelogSection = (
+  content: string | null,
+  title: string,
+  section: string
+): string => {
+  const changelog = content ?? changelogHeader;
+
+  if (hasChangelogSection(changelog, title)) {
+    return changelog;
+  }
+
+  const firstSectionIndex = changelog.search(sectionHeadingRegex);
+
+  if (firstSectionIndex === -1) {
+    return `${changelog.trimEnd()}\n\n${section}`;
+  }
+
+  return `${changelog.slice(0, firstSectionIndex)}${section}\n${changelog.slice(firstSectionIndex)}`;
+};
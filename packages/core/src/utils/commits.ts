@@ -0,0 +1,354 @@
+import type {
+  CommitConvention,
+  CommitConventionOptions,
+  CommitFooter,
+  CommitTypeOptions,
+  ParsedCommit,
+  ResolvedCommitType,
+} from '@/types/commits';
+import type { Commit, CommitType } from '@/types/git-client';
+
+/**
+ * @description The header of a conventional commit: `type(scope)!: description`.
+ */
+export const conventionalHeaderRegex =
+  /^(?<type>\w+)(?:\((?<scope>[^)]*)\))?(?<breaking>!)?: (?<description>.+)$/;
+
+/**
+ * @description The header of an Angular commit: only the Angular types are recognized.
+ */
+export const angularHeaderRegex =
+  /^(?<type>build|ci|docs|feat|fix|perf|refactor|revert|style|test)(?:\((?<scope>[^)]*)\))?: (?<description>.+)$/;
+
+/**
+ * @description The header of a gitmoji commit: an emoji or its `:code:` followed by the description.
+ */
+export const gitmojiHeaderRegex =
+  /^(?<type>:[\w+-]+:|\p{Extended_Pictographic}\uFE0F?)\s*(?:\((?<scope>[^)]*)\):?\s*)?(?<description>.+)$/u;
+
+const variationSelectorRegex = /\uFE0F/g;
+const revertSubjectRegex = /^Revert "(?<description>.+)"$/;
+const revertedCommitRegex = /This reverts commit (?<hash>[0-9a-f]{7,40})/;
+
+const mergePullRequestRegex =
+  /^Merge pull request (?<reference>#\d+) from \S+$/;
+
+const footerRegex =
+  /^(?<token>BREAKING[ -]CHANGE|[\w-]+)(?<separator>: | #)(?<value>.*)$/;
+const breakingTokenRegex = /^BREAKING[ -]CHANGE$/;
+const referenceRegex = /(?:[\w.-]+\/[\w.-]+)?#\d+/g;
+
+/**
+ * @description The commit types known by default, in the order of the release notes.
+ * Commits with a type that isn't configured are grouped as `other`.
+ */
+export const defaultCommitTypes: Record<CommitType, CommitTypeOptions> = {
+  feat: { label: '🚀 Features', hidden: false, order: 1, bump: 'minor' },
+  fix: { label: '🐛 Bug Fixes', hidden: false, order: 2, bump: 'patch' },
+  docs: { label: '📚 Documentation', hidden: false, order: 3, bump: 'none' },
+  style: { label: '💄 Styles', hidden: false, order: 4, bump: 'none' },
+  refactor: {
+    label: '♻️ Code Refactoring',
+    hidden: false,
+    order: 5,
+    bump: 'none',
+  },
+  perf: {
+    label: '⚡ Performance Improvements',
+    hidden: false,
+    order: 6,
+    bump: 'patch',
+  },
+  test: { label: '🧪 Tests', hidden: false, order: 7, bump: 'none' },
+  chore: { label: '🔧 Chores', hidden: false, order: 8, bump: 'none' },
+  revert: { label: '⏪ Reverts', hidden: false, order: 9, bump: 'none' },
+  other: { label: '📝 Other Changes', hidden: false, order: 100, bump: 'none' },
+};
+
+/**
+ * @description Merges the `release.commitTypes` configuration with the default commit types.
+ * Types added without an order are placed before `other`.
+ * @param commitTypes - The configured commit types
+ * @returns The commit types sorted by order
+ */
+export const resolveCommitTypes = (
+  commitTypes: Record<string, Partial<CommitTypeOptions>> = {}
+): ResolvedCommitType[] => {
+  const types = new Set([
+    ...Object.keys(defaultCommitTypes),
+    ...Object.keys(commitTypes),
+  ]);
+
+  return Array.from(types)
+    .map((type) => ({
+      type,
+      label: type,
+      hidden: false,
+      order: 50,
+      bump: 'none' as const,
+      ...defaultCommitTypes[type],
+      ...commitTypes[type],
+    }))
+    .sort((a, b) => a.order - b.order);
+};
+
+/**
+ * @description The gitmojis mapped to commit types. Both the emojis and their codes are recognized.
+ */
+const gitmojiTypes: Record<string, string> = {
+  '✨': 'feat',
+  ':sparkles:': 'feat',
+  '🎉': 'feat',
+  ':tada:': 'feat',
+  '💥': 'feat',
+  ':boom:': 'feat',
+  '🐛': 'fix',
+  ':bug:': 'fix',
+  '🚑': 'fix',
+  ':ambulance:': 'fix',
+  '🔒': 'fix',
+  ':lock:': 'fix',
+  '🩹': 'fix',
+  ':adhesive_bandage:': 'fix',
+  '⚡': 'perf',
+  ':zap:': 'perf',
+  '♻': 'refactor',
+  ':recycle:': 'refactor',
+  '📝': 'docs',
+  ':memo:': 'docs',
+  '🎨': 'style',
+  ':art:': 'style',
+  '✅': 'test',
+  ':white_check_mark:': 'test',
+  '🔧': 'chore',
+  ':wrench:': 'chore',
+  '⬆': 'chore',
+  ':arrow_up:': 'chore',
+  '🔥': 'chore',
+  ':fire:': 'chore',
+  '⏪': 'revert',
+  ':rewind:': 'revert',
+};
+
+/**
+ * @description The built-in commit conventions.
+ */
+export const commitConventions: Record<
+  'conventional' | 'angular' | 'gitmoji',
+  CommitConvention
+> = {
+  conventional: {
+    pattern: conventionalHeaderRegex,
+    types: {},
+    breakingTypes: [],
+  },
+  angular: {
+    pattern: angularHeaderRegex,
+    types: {},
+    breakingTypes: [],
+  },
+  gitmoji: {
+    pattern: gitmojiHeaderRegex,
+    types: gitmojiTypes,
+    breakingTypes: ['💥', ':boom:'],
+  },
+};
+
+/**
+ * @description Resolves the `release.commitConvention` configuration.
+ * @param commitConvention - A preset name or a custom pattern with its type mapping
+ * @returns The commit convention, `conventional` by default
+ */
+export const resolveCommitConvention = (
+  commitConvention: CommitConventionOptions = 'conventional'
+): CommitConvention => {
+  if (typeof commitConvention === 'string') {
+    return commitConventions[commitConvention];
+  }
+
+  return {
+    pattern: new RegExp(commitConvention.pattern, 'u'),
+    types: commitConvention.types ?? {},
+    breakingTypes: [],
+  };
+};
+
+/**
+ * @description Splits a commit body into its text and its footers.
+ * Footers are the final paragraphs starting with a `token: value` or `token #value` line,
+ * so a paragraph of the text starting with e.g. `Note: ...` is kept in the body.
+ * @param body - The commit body
+ * @returns The text of the body and the footers
+ */
+export const parseCommitBody = (
+  body: string
+): { body: string; footers: CommitFooter[] } => {
+  const lines = body.trim().split('\n');
+  const paragraphIndexes = lines
+    .map((line, index) =>
+      line.trim() !== '' && (index === 0 || lines[index - 1].trim() === '')
+        ? index
+        : -1
+    )
+    .filter((index) => index !== -1);
+
+  let footersIndex = -1;
+
+  for (const paragraphIndex of paragraphIndexes.reverse()) {
+    if (!footerRegex.test(lines[paragraphIndex])) {
+      break;
+    }
+
+    footersIndex = paragraphIndex;
+  }
+
+  if (footersIndex === -1) {
+    return { body: body.trim(), footers: [] };
+  }
+
+  const footers: CommitFooter[] = [];
+
+  for (const line of lines.slice(footersIndex)) {
+    const match = line.match(footerRegex);
+
+    if (match) {
+      const { token, separator, value } = match.groups;
+
+      // `Closes #12` keeps the hash as part of the value
+      footers.push({ token, value: separator === ' #' ? `#${value}` : value });
+    } else if (footers.length > 0) {
+      // Footer values can span multiple lines
+      footers.at(-1).value += `\n${line}`;
+    }
+  }
+
+  return {
+    body: lines.slice(0, footersIndex).join('\n').trim(),
+    footers: footers.map(({ token, value }) => ({
+      token,
+      value: value.trim(),
+    })),
+  };
+};
+
+/**
+ * @description Parses a commit with a commit convention, the conventional commits specification by default.
+ * @param commit - The commit to parse
+ * @param convention - The convention of the commit subjects
+ * @returns The type, scope, breaking change, description, body, footers and references of the commit
+ */
+export const parseCommit = (
+  commit: Commit,
+  convention: CommitConvention = commitConventions.conventional
+): ParsedCommit => {
+  const header = commit.message.match(convention.pattern);
+  const { body, footers } = parseCommitBody(commit.body ?? '');
+
+  // `git revert` writes `Revert "<subject>"` and `This reverts commit <sha>.`
+  const revertSubject = commit.message.match(revertSubjectRegex);
+  const revertedHash =
+    (commit.body ?? '').match(revertedCommitRegex)?.groups.hash ?? null;
+
+  // Emojis are compared without their variation selector, e.g. `♻️` and `♻`
+  const matchedType = header?.groups?.type?.replace(variationSelectorRegex, '');
+  const description =
+    revertSubject?.groups.description ??
+    header?.groups?.description ??
+    commit.message;
+
+  const breakingFooter = footers.find(({ token }) =>
+    breakingTokenRegex.test(token)
+  );
+  const isBreaking = Boolean(
+    header?.groups?.breaking ||
+      breakingFooter ||
+      convention.breakingTypes.includes(matchedType)
+  );
+
+  const references = [
+    commit.message,
+    body,
+    ...footers.map(({ value }) => value),
+  ].flatMap((text) => text.match(referenceRegex) ?? []);
+
+  let type = 'other';
+
+  if (revertSubject || revertedHash) {
+    type = 'revert';
+  } else if (matchedType) {
+    type = convention.types[matchedType] ?? matchedType;
+  }
+
+  return {
+    commit,
+    type,
+    scope: header?.groups?.scope || null,
+    isBreaking,
+    breakingDescription: isBreaking
+      ? (breakingFooter?.value ?? description)
+      : null,
+    description,
+    body,
+    footers,
+    references: Array.from(new Set(references)),
+    revertedHash,
+  };
+};
+
+/**
+ * @description Removes the revert commits and the commits they revert when both are in the list.
+ * Commits are expected newest first, as returned by `git log`, so reverting a revert restores the original commit.
+ * Reverts of commits outside the list are kept.
+ * @param parsedCommits - The parsed commits of a release
+ * @returns The commits that weren't cancelled by a revert
+ */
+export const cancelRevertedCommits = (
+  parsedCommits: ParsedCommit[]
+): ParsedCommit[] => {
+  const cancelledHashes = new Set<string>();
+
+  for (const { commit, revertedHash } of parsedCommits) {
+    if (!revertedHash || cancelledHashes.has(commit.hash)) {
+      continue;
+    }
+
+    const revertedCommit = parsedCommits.find(
+      (parsedCommit) =>
+        parsedCommit.commit.hash.startsWith(revertedHash) &&
+        !cancelledHashes.has(parsedCommit.commit.hash)
+    );
+
+    if (revertedCommit) {
+      cancelledHashes.add(commit.hash);
+      cancelledHashes.add(revertedCommit.commit.hash);
+    }
+  }
+
+  return parsedCommits.filter(
+    ({ commit }) => !cancelledHashes.has(commit.hash)
+  );
+};
+
+/**
+ * @description Replaces the subject of the pull request merge commits of GitHub with the title of their pull request,
+ * which GitHub writes as the first line of their body, followed by the pull request reference.
+ * Merge commits without a title are kept as is.
+ * @param commits - The commits of a release
+ * @returns The commits, with the titles of the merged pull requests as subjects
+ */
+export const applyPullRequestTitles = (commits: Commit[]): Commit[] =>
+  commits.map((commit) => {
+    const reference = commit.message.match(mergePullRequestRegex)?.groups
+      .reference;
+    const [title, ...body] = (commit.body ?? '').trim().split('\n');
+
+    if (!(reference && title)) {
+      return commit;
+    }
+
+    return {
+      ...commit,
+      message: `${title.trim()} (${reference})`,
+      body: body.join('\n').trim(),
+    };
+  });
@@ -5,6 +5,15 @@ export const dirExists = (foundPath: string): boolean => {
   return fs.existsSync(foundPath);
 };
 
+/**
+ * @description Checks that a path exists and is a file
+ * @param filePath - The path to check
+ * @returns True if the path is a file
+ */
+export const fileExists = (filePath: string): boolean => {
+  return fs.existsSync(filePath) && fs.statSync(filePath).isFile();
+};
+
 /**
  * @description Reads a JSON file and returns the parsed content
  * @param file - The path to the JSON file
@@ -82,6 +91,15 @@ export const writeMdFile = async (
   });
 };
 
+/**
+ * @description Removes a file asynchronously, ignoring missing files
+ * @param filePath - The path to the file
+ * @returns A promise that resolves when the file is removed
+ */
+export const removeFile = async (filePath: string): Promise<void> => {
+  await fs.promises.rm(path.resolve(filePath), { force: true });
+};
+
 /**
  * @description Appends data to a file asynchronously
  * @param filePath - The path to the file
@@ -0,0 +1,82 @@
+const pullRequestReferenceRegex = /\(#(\d+)\)/g;
+const issueReferenceRegex =
+  /^(?:(?<repository>[\w.-]+\/[\w.-]+))?#(?<number>\d+)$/;
+
+/**
+ * @description Gets the URL of a GitHub repository.
+ * @param owner - The owner of the repository
+ * @param repo - The name of the repository
+ * @returns The repository URL
+ */
+export const getRepositoryUrl = ({
+  owner,
+  repo,
+}: {
+  owner: string;
+  repo: string;
+}): string => `https://github.com/${owner}/${repo}`;
+
+/**
+ * @description Gets the GitHub link comparing two tags.
+ * @param repositoryUrl - The URL of the repository
+ * @param from - The previous tag
+ * @param to - The new tag
+ * @returns The compare URL
+ */
+export const getCompareUrl = (
+  repositoryUrl: string,
+  from: string,
+  to: string
+): string =>
+  `${repositoryUrl}/compare/${encodeURIComponent(from)}...${encodeURIComponent(to)}`;
+
+/**
+ * @description Gets the GitHub URL of a commit.
+ * @param repositoryUrl - The URL of the repository
+ * @param hash - The full hash of the commit
+ * @returns The commit URL
+ */
+export const getCommitUrl = (repositoryUrl: string, hash: string): string =>
+  `${repositoryUrl}/commit/${hash}`;
+
+/**
+ * @description Links a commit with its short hash.
+ * @param repositoryUrl - The URL of the repository
+ * @param hash - The full hash of the commit
+ * @returns A Markdown link to the commit
+ */
+export const linkCommit = (repositoryUrl: string, hash: string): string =>
+  `[${hash.slice(0, 7)}](${getCommitUrl(repositoryUrl, hash)})`;
+
+/**
+ * @description Turns the `(#123)` pull request references of a commit subject into links.
+ * @param repositoryUrl - The URL of the repository
+ * @param text - The commit subject
+ * @returns The subject with linked pull requests
+ */
+export const linkPullRequests = (repositoryUrl: string, text: string): string =>
+  text.replace(
+    pullRequestReferenceRegex,
+    (_, number) => `([#${number}](${repositoryUrl}/pull/${number}))`
+  );
+
+/**
+ * @description Links an issue reference, e.g. `#45` or `owner/repo#45`.
+ * @param repositoryUrl - The URL of the repository, used for references without a repository
+ * @param reference - The issue reference
+ * @returns A Markdown link to the issue, or the reference as is if it can't be linked
+ */
+export const linkIssue = (repositoryUrl: string, reference: string): string => {
+  const match = reference.match(issueReferenceRegex);
+
+  if (!match) {
+    return reference;
+  }
+
+  const { repository, number } = match.groups;
+  const baseUrl = repository
+    ? `https://github.com/${repository}`
+    : repositoryUrl;
+
+  return `[${reference}](${baseUrl}/issues/${number})`;
+};
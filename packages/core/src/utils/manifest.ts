@@ -0,0 +1,80 @@
+import type { ManifestEntry, VersionsManifest } from '@/types/manifest';
+
+const manifestVersionRegex = /^\d+(\.\d+)+(?:[-+][0-9A-Za-z.+-]+)?$/;
+
+/**
+ * @description The path of the versions manifest, relative to the root of the repository.
+ */
+export const manifestFilePath = '.orbit-it/manifest.json';
+
+/**
+ * @description Checks that an entry of the manifest has a semantic or calendar version and an optional tag.
+ * @param entry - The parsed entry
+ * @returns Whether the entry is valid
+ */
+const isManifestEntry = (entry: unknown): entry is ManifestEntry => {
+  const { version, tag } = (entry ?? {}) as Partial<ManifestEntry>;
+
+  return (
+    typeof version === 'string' &&
+    manifestVersionRegex.test(version) &&
+    (tag === null || typeof tag === 'string')
+  );
+};
+
+/**
+ * @description Parses the content of the versions manifest.
+ * @param content - The content of the manifest file
+ * @returns The manifest, or null if the content isn't a valid manifest
+ */
+export const parseManifest = (content: string): VersionsManifest | null => {
+  try {
+    const { packages } = JSON.parse(content);
+
+    if (
+      typeof packages !== 'object' ||
+      packages === null ||
+      !Object.values(packages).every(isManifestEntry)
+    ) {
+      return null;
+    }
+
+    return { packages };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * @description Formats the versions manifest, with the packages sorted by name to keep diffs small.
+ * @param manifest - The manifest to format
+ * @returns The content of the manifest file
+ */
+export const formatManifest = ({ packages }: VersionsManifest): string => {
+  const sortedPackages = Object.fromEntries(
+    Object.entries(packages).sort(([a], [b]) => a.localeCompare(b))
+  );
+
+  return `${JSON.stringify({ packages: sortedPackages }, null, 2)}\n`;
+};
+
+/**
+ * @description Records releases in the versions manifest. The other packages are kept.
+ * @param manifest - The current manifest
+ * @param releases - The released packages with their new version and tag
+ * @returns The updated manifest
+ */
+export const updateManifest = (
+  manifest: VersionsManifest,
+  releases: { name: string; version: string; tagName: string }[]
+): VersionsManifest => ({
+  packages: {
+    ...manifest.packages,
+    ...Object.fromEntries(
+      releases.map(({ name, version, tagName }) => [
+        name,
+        { version, tag: tagName },
+      ])
+    ),
+  },
+});
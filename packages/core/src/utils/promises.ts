@@ -0,0 +1,17 @@
+/**
+ * @description Runs an async task on every item, one after the other, for side effects that must not overlap.
+ * @param items - The items to process, in order
+ * @param task - The task run on each item
+ * @returns The results of the tasks, in the order of the items
+ */
+export const runSequentially = <T, R>(
+  items: readonly T[],
+  task: (item: T) => Promise<R>
+): Promise<R[]> =>
+  items.reduce<Promise<R[]>>(
+    async (previousResults, item) => [
+      ...(await previousResults),
+      await task(item),
+    ],
+    Promise.resolve([])
+  );
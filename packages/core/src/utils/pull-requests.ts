@@ -0,0 +1,43 @@
+const metadataRegex = /<!-- orbit-it:metadata (?<metadata>[A-Za-z0-9+/=]+) -->/;
+
+/**
+ * @description The branch of the release pull requests, reset on every release.
+ */
+export const releasePullRequestBranch = 'orbit-it/release';
+
+/**
+ * @description Appends data to the body of a pull request, hidden in an HTML comment.
+ * The data is encoded so that its content can't close the comment.
+ * @param body - The body of the pull request
+ * @param metadata - The data to keep in the pull request
+ * @returns The body with the data
+ */
+export const appendPullRequestMetadata = (
+  body: string,
+  metadata: unknown
+): string => {
+  const encodedMetadata = Buffer.from(JSON.stringify(metadata)).toString(
+    'base64'
+  );
+
+  return `${body.trimEnd()}\n\n<!-- orbit-it:metadata ${encodedMetadata} -->\n`;
+};
+
+/**
+ * @description Reads the data appended to the body of a pull request by `appendPullRequestMetadata`.
+ * @param body - The body of the pull request
+ * @returns The data, or null if the body has none
+ */
+export const readPullRequestMetadata = <T>(body: string | null): T | null => {
+  const encodedMetadata = body?.match(metadataRegex)?.groups.metadata;
+
+  if (!encodedMetadata) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(Buffer.from(encodedMetadata, 'base64').toString('utf8'));
+  } catch {
+    return null;
+  }
+};
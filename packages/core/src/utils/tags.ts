@@ -0,0 +1,116 @@
+import { isCalverVersion } from '@utils/calver';
+import { compareVersions } from '@utils/versions';
+import semver from 'semver';
+
+const placeholderRegex = /\{(name|version|major)\}/g;
+const regexSpecialCharsRegex = /[.*+?^${}()|[\]\\]/g;
+
+const versionPattern =
+  '(?<version>\\d+\\.\\d+\\.\\d+(?:-[0-9A-Za-z.-]+)?(?:\\+[0-9A-Za-z.-]+)?)';
+const calverVersionPattern = '(?<version>\\d+(?:\\.\\d+)+)';
+
+/**
+ * @description The tag template used when `release.tagFormat` is not set.
+ * @param versioningStrategy - The versioning strategy of the project
+ * @returns `v{version}` for fixed versioning and `{name}@{version}` for independent versioning
+ */
+export const getDefaultTagFormat = (
+  versioningStrategy: 'fixed' | 'independent'
+): string =>
+  versioningStrategy === 'fixed' ? 'v{version}' : '{name}@{version}';
+
+/**
+ * @description Renders a tag template. `{name}`, `{version}` and `{major}` (the first segment of the version) are replaced.
+ * @param template - The tag template, e.g. `{name}/v{version}`
+ * @param name - The name of the released package or project
+ * @param version - The released version
+ * @returns The tag name
+ */
+export const formatTag = (
+  template: string,
+  { name, version }: { name: string; version: string }
+): string =>
+  template
+    .replaceAll('{name}', name)
+    .replaceAll('{version}', version)
+    .replaceAll('{major}', version.split('.')[0]);
+
+/**
+ * @description Reads the version of a tag created with a tag template.
+ * @param template - The tag template, e.g. `{name}/v{version}`
+ * @param tag - The tag to parse
+ * @param name - The name of the package or project the tag must belong to
+ * @param calverFormat - The CalVer format of the versions, semver when undefined
+ * @returns The version, or null if the tag doesn't match the template
+ */
+export const parseTag = (
+  template: string,
+  tag: string,
+  name: string,
+  calverFormat?: string
+): string | null => {
+  const pattern = template
+    .split(placeholderRegex)
+    .map((part, index) => {
+      // Odd parts are the names of the placeholders
+      if (index % 2 === 0) {
+        return part.replace(regexSpecialCharsRegex, '\\$&');
+      }
+
+      if (part === 'name') {
+        return name.replace(regexSpecialCharsRegex, '\\$&');
+      }
+
+      // The major is checked when the tag is formatted back below
+      if (part === 'version') {
+        return calverFormat ? calverVersionPattern : versionPattern;
+      }
+
+      return '\\d+';
+    })
+    .join('');
+
+  const match = tag.match(new RegExp(`^${pattern}$`));
+  const version = calverFormat
+    ? (match?.groups?.version ?? null)
+    : semver.valid(match?.groups?.version ?? null);
+
+  if (calverFormat && version && !isCalverVersion(calverFormat, version)) {
+    return null;
+  }
+
+  if (!version || formatTag(template, { name, version }) !== tag) {
+    return null;
+  }
+
+  return version;
+};
+
+/**
+ * @description Finds the latest release of a package or project among the reachable tags, parsing the tags with a tag template.
+ * The highest version wins rather than the nearest tag, so a merged maintenance branch does not hide a later release.
+ * Tags of other packages or formats are skipped.
+ * @param template - The tag template, e.g. `{name}/v{version}`
+ * @param tags - The reachable tags
+ * @param name - The name of the package or project
+ * @param isStable - Whether prerelease tags are skipped
+ * @param calverFormat - The CalVer format of the versions, semver when undefined
+ * @returns The latest tag, or undefined if nothing was released
+ */
+export const findLatestTag = (
+  template: string,
+  tags: string[],
+  name: string,
+  isStable = false,
+  calverFormat?: string
+): string | undefined =>
+  tags
+    .map((tag) => ({
+      tag,
+      version: parseTag(template, tag, name, calverFormat),
+    }))
+    .filter(
+      ({ version }) =>
+        version !== null && !(isStable && semver.prerelease(version))
+    )
+    .sort((a, b) => compareVersions(b.version, a.version))[0]?.tag;
@@ -0,0 +1,379 @@
+import type { TemplateNode, TemplateShape } from '@/types/templates';
+
+const tagRegex = /\{\{\s*(.*?)\s*\}\}/g;
+const pathRegex = /^\w+(?:\.\w+)*$/;
+const openingTagRegex = /^#(?<block>each|if)\s+(?<path>\S+)$/;
+const closingTagRegex = /^\/(?<block>each|if)$/;
+
+type BlockNode = Extract<TemplateNode, { kind: 'each' | 'if' }>;
+
+/**
+ * @description The fields of the release notes templates, see `ReleaseNotesContext`.
+ */
+export const releaseNotesTemplateShape: TemplateShape = {
+  name: 'value',
+  version: 'value',
+  tag: 'value',
+  previousTag: 'value',
+  date: 'value',
+  compareUrl: 'value',
+  breakingChanges: [
+    { scope: 'value', description: 'value', hash: 'value', url: 'value' },
+  ],
+  sections: [
+    {
+      type: 'value',
+      label: 'value',
+      commits: [
+        {
+          hash: 'value',
+          shortHash: 'value',
+          url: 'value',
+          type: 'value',
+          scope: 'value',
+          description: 'value',
+          body: 'value',
+          isBreaking: 'value',
+          author: 'value',
+          entry: 'value',
+        },
+      ],
+    },
+  ],
+  changes: [{ summary: 'value', bump: 'value' }],
+  dependencies: ['value'],
+  contributors: [{ name: 'value', login: 'value', firstContribution: 'value' }],
+};
+
+/**
+ * @description Finds the boundaries of the line of a block tag when nothing else is on it,
+ * so that `{{#each}}`, `{{#if}}`, `{{else}}` and closing tags on their own line don't leave blank lines.
+ * @param source - The template
+ * @param start - The index of the tag
+ * @param end - The index following the tag
+ * @returns The start of the line and the start of the next line, or null if the tag isn't alone on its line
+ */
+const getStandaloneLine = (
+  source: string,
+  start: number,
+  end: number
+): { start: number; end: number } | null => {
+  const lineStart = source.lastIndexOf('\n', start - 1) + 1;
+  const newlineIndex = source.indexOf('\n', end);
+  const lineEnd = newlineIndex === -1 ? source.length : newlineIndex + 1;
+
+  if (
+    source.slice(lineStart, start).trim() !== '' ||
+    source.slice(end, lineEnd).trim() !== ''
+  ) {
+    return null;
+  }
+
+  return { start: lineStart, end: lineEnd };
+};
+
+const isBlockTag = (expression: string): boolean =>
+  openingTagRegex.test(expression) ||
+  closingTagRegex.test(expression) ||
+  expression === 'else';
+
+/**
+ * @description Creates the node of an opening `{{#each path}}` or `{{#if path}}` tag.
+ * @param expression - The content of the tag
+ * @param tag - The tag, for errors
+ * @param line - The line of the tag
+ * @returns The block node, without children yet
+ */
+const createBlockNode = (
+  expression: string,
+  tag: string,
+  line: number
+): BlockNode => {
+  const { block, path } = expression.match(openingTagRegex).groups;
+
+  if (!pathRegex.test(path)) {
+    throw new Error(`Line ${line}: unexpected ${tag}`);
+  }
+
+  if (block === 'each') {
+    return { kind: 'each', path: path.split('.'), line, children: [] };
+  }
+
+  return {
+    kind: 'if',
+    path: path.split('.'),
+    line,
+    children: [],
+    elseChildren: [],
+  };
+};
+
+/**
+ * @description Handles an `{{else}}` or closing tag, checking that it matches the current block.
+ * @param blocks - The open blocks, innermost last
+ * @param expression - The content of the tag
+ * @param tag - The tag, for errors
+ * @param line - The line of the tag
+ */
+const closeBlock = (
+  blocks: { node: BlockNode; isElse: boolean }[],
+  expression: string,
+  tag: string,
+  line: number
+): void => {
+  const currentBlock = blocks.at(-1);
+
+  if (expression === 'else') {
+    if (currentBlock?.node.kind !== 'if' || currentBlock.isElse) {
+      throw new Error(`Line ${line}: {{else}} outside of an {{#if}} block`);
+    }
+
+    currentBlock.isElse = true;
+    return;
+  }
+
+  if (
+    currentBlock?.node.kind !== expression.match(closingTagRegex).groups.block
+  ) {
+    throw new Error(`Line ${line}: unexpected ${tag}`);
+  }
+
+  blocks.pop();
+};
+
+/**
+ * @description Parses a template. `{{path}}` prints a value, `{{#each path}}...{{/each}}` repeats its content for
+ * each item of a list, with `{{this}}` or the fields of the item in scope, and `{{#if path}}...{{else}}...{{/if}}`
+ * renders its content when the value is set and not an empty list.
+ * @param source - The template
+ * @returns The parsed template
+ * @throws An error with the line of the first syntax error
+ */
+export const parseTemplate = (source: string): TemplateNode[] => {
+  const nodes: TemplateNode[] = [];
+  const blocks: { node: BlockNode; isElse: boolean }[] = [];
+  let index = 0;
+
+  const getChildren = (): TemplateNode[] => {
+    const block = blocks.at(-1);
+
+    if (!block) {
+      return nodes;
+    }
+
+    return block.isElse && block.node.kind === 'if'
+      ? block.node.elseChildren
+      : block.node.children;
+  };
+
+  const pushText = (value: string) => {
+    if (value) {
+      getChildren().push({ kind: 'text', value });
+    }
+  };
+
+  for (const match of source.matchAll(tagRegex)) {
+    const [tag, expression] = match;
+    const line = source.slice(0, match.index).split('\n').length;
+
+    if (!isBlockTag(expression)) {
+      if (!pathRegex.test(expression)) {
+        throw new Error(`Line ${line}: unexpected ${tag}`);
+      }
+
+      pushText(source.slice(index, match.index));
+      getChildren().push({
+        kind: 'variable',
+        path: expression.split('.'),
+        line,
+      });
+      index = match.index + tag.length;
+      continue;
+    }
+
+    const standaloneLine = getStandaloneLine(
+      source,
+      match.index,
+      match.index + tag.length
+    );
+
+    pushText(source.slice(index, standaloneLine?.start ?? match.index));
+    index = standaloneLine?.end ?? match.index + tag.length;
+
+    if (expression.startsWith('#')) {
+      const node = createBlockNode(expression, tag, line);
+
+      getChildren().push(node);
+      blocks.push({ node, isElse: false });
+    } else {
+      closeBlock(blocks, expression, tag, line);
+    }
+  }
+
+  if (blocks.length > 0) {
+    const { node } = blocks.at(-1);
+
+    throw new Error(
+      `Line ${node.line}: {{#${node.kind} ${node.path.join('.')}}} is never closed`
+    );
+  }
+
+  pushText(source.slice(index));
+
+  return nodes;
+};
+
+/**
+ * @description Looks up a path in the scopes of a template, from the innermost one.
+ * `this` is the current item of a loop.
+ * @param path - The path of the value
+ * @param scopes - The scopes, outermost first
+ * @param getField - Reads a field of a scope, undefined if it doesn't exist
+ * @returns The value, or undefined if the path doesn't exist
+ */
+const lookupPath = <T>(
+  path: string[],
+  scopes: T[],
+  getField: (scope: T, field: string) => T | undefined
+): T | undefined => {
+  const [first, ...fields] = path;
+
+  let value =
+    first === 'this'
+      ? scopes.at(-1)
+      : scopes
+          .map((scope) => getField(scope, first))
+          .findLast((field) => field !== undefined);
+
+  for (const field of fields) {
+    if (value === undefined) {
+      return;
+    }
+
+    value = getField(value, field);
+  }
+
+  return value;
+};
+
+const getShapeField = (
+  shape: TemplateShape,
+  field: string
+): TemplateShape | undefined =>
+  typeof shape === 'object' &&
+  !Array.isArray(shape) &&
+  Object.hasOwn(shape, field)
+    ? (shape as Record<string, TemplateShape>)[field]
+    : undefined;
+
+const getDataField = (data: unknown, field: string): unknown =>
+  data !== null && typeof data === 'object' && Object.hasOwn(data, field)
+    ? (data as Record<string, unknown>)[field]
+    : undefined;
+
+/**
+ * @description Checks the fields used by template nodes against the shape of the data.
+ * @param nodes - The template nodes
+ * @param scopes - The shapes in scope, outermost first
+ * @returns The errors, with their line
+ */
+const checkTemplateNodes = (
+  nodes: TemplateNode[],
+  scopes: TemplateShape[]
+): string[] =>
+  nodes.flatMap((node) => {
+    if (node.kind === 'text') {
+      return [];
+    }
+
+    const name = node.path.join('.');
+    const shape = lookupPath(node.path, scopes, getShapeField);
+
+    if (shape === undefined) {
+      return [`Line ${node.line}: unknown field "${name}"`];
+    }
+
+    if (node.kind === 'variable') {
+      return shape === 'value'
+        ? []
+        : [`Line ${node.line}: "${name}" can't be printed, loop over it`];
+    }
+
+    if (node.kind === 'if') {
+      return [
+        ...checkTemplateNodes(node.children, scopes),
+        ...checkTemplateNodes(node.elseChildren, scopes),
+      ];
+    }
+
+    if (!Array.isArray(shape)) {
+      return [`Line ${node.line}: "${name}" is not a list`];
+    }
+
+    return checkTemplateNodes(node.children, [...scopes, shape[0]]);
+  });
+
+/**
+ * @description Validates a template and the fields it uses.
+ * @param source - The template
+ * @param shape - The fields of the data the template is rendered with
+ * @returns The errors, empty if the template is valid
+ */
+export const validateTemplate = (
+  source: string,
+  shape: TemplateShape
+): string[] => {
+  let nodes: TemplateNode[];
+
+  try {
+    nodes = parseTemplate(source);
+  } catch (error) {
+    return [error instanceof Error ? error.message : String(error)];
+  }
+
+  return checkTemplateNodes(nodes, [shape]);
+};
+
+/**
+ * @description Renders a template node with the data in scope.
+ * @param node - The template node
+ * @param scopes - The data in scope, outermost first
+ * @returns The rendered text
+ */
+const renderTemplateNode = (node: TemplateNode, scopes: unknown[]): string => {
+  if (node.kind === 'text') {
+    return node.value;
+  }
+
+  const value = lookupPath(node.path, scopes, getDataField);
+
+  if (node.kind === 'variable') {
+    return value === undefined || value === null ? '' : String(value);
+  }
+
+  if (node.kind === 'if') {
+    const isSet = Array.isArray(value) ? value.length > 0 : Boolean(value);
+
+    return (isSet ? node.children : node.elseChildren)
+      .map((child) => renderTemplateNode(child, scopes))
+      .join('');
+  }
+
+  return (Array.isArray(value) ? value : [])
+    .flatMap((item) =>
+      node.children.map((child) => renderTemplateNode(child, [...scopes, item]))
+    )
+    .join('');
+};
+
+/**
+ * @description Renders a template, see `parseTemplate` for its syntax.
+ * Missing values are rendered as empty strings.
+ * @param source - The template
+ * @param data - The data the template is rendered with
+ * @returns The rendered text
+ */
+export const renderTemplate = (source: string, data: unknown): string =>
+  parseTemplate(source)
+    .map((node) => renderTemplateNode(node, [data]))
+    .join('');
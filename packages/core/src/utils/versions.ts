@@ -0,0 +1,76 @@
+import semver from 'semver';
+import type { DependencySection } from '@/types/workspace-graph';
+
+const simpleRangeRegex = /^(\^|~|>=|=)?v?\d+\.\d+\.\d+(-[0-9A-Za-z.-]+)?$/;
+const versionSuffixRegex = /[-+].*$/;
+
+const workspaceProtocol = 'workspace:';
+
+/**
+ * @description The package.json sections that can reference workspace packages.
+ */
+export const dependencySections: DependencySection[] = [
+  'dependencies',
+  'devDependencies',
+  'peerDependencies',
+];
+
+/**
+ * @description Rewrites a dependency range so it points to a new version of a workspace package.
+ * `workspace:*`, `workspace:^` and `workspace:~` are kept as is since the package manager resolves them on publish.
+ * @param range - The current dependency range, e.g. `^1.2.0` or `workspace:^1.2.0`
+ * @param version - The new version of the dependency
+ * @returns The rewritten range, or the original one when it is not a simple version range
+ */
+export const rewriteDependencyRange = (
+  range: string,
+  version: string
+): string => {
+  if (range.startsWith(workspaceProtocol)) {
+    const workspaceRange = range.slice(workspaceProtocol.length);
+
+    if (['*', '^', '~'].includes(workspaceRange)) {
+      return range;
+    }
+
+    return `${workspaceProtocol}${rewriteDependencyRange(workspaceRange, version)}`;
+  }
+
+  const match = range.match(simpleRangeRegex);
+
+  if (!match) {
+    return range;
+  }
+
+  return `${match[1] ?? ''}${version}`;
+};
+
+/**
+ * @description Compares two versions, semantic or calendar ones.
+ * Calendar versions are compared segment by segment, since zero-padded segments aren't valid semver.
+ * @param a - The first version
+ * @param b - The second version
+ * @returns A negative number if a is lower, a positive one if a is greater, 0 if they are equal
+ */
+export const compareVersions = (a: string, b: string): number => {
+  if (semver.valid(a) && semver.valid(b)) {
+    return semver.compare(a, b);
+  }
+
+  const aSegments = a.replace(versionSuffixRegex, '').split('.').map(Number);
+  const bSegments = b.replace(versionSuffixRegex, '').split('.').map(Number);
+
+  for (
+    let index = 0;
+    index < Math.max(aSegments.length, bSegments.length);
+    index++
+  ) {
+    const difference = (aSegments[index] ?? 0) - (bSegments[index] ?? 0);
+
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+
+  return 0;
+};
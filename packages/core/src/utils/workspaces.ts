@@ -0,0 +1,101 @@
+import path from 'node:path';
+import { OrbitItError } from '@utils/errors';
+import { readJsonFile } from '@utils/files';
+import { ignorePaths } from '@utils/paths';
+import { dependencySections } from '@utils/versions';
+import fg from 'fast-glob';
+import type { WorkspacePackage } from '@/types/workspace-graph';
+
+/**
+ * @description Resolves workspace globs into packages with their current version.
+ * Directories without a package.json are named after the directory, with version `0.0.0`.
+ * @param workspaces - The workspace globs, e.g. `packages/*`
+ * @returns The packages found in the workspaces, sorted by directory
+ */
+export const findWorkspacePackages = async (
+  workspaces: string[]
+): Promise<WorkspacePackage[]> => {
+  const directories = await fg(workspaces, {
+    cwd: process.cwd(),
+    ignore: ignorePaths,
+    onlyDirectories: true,
+  });
+
+  return await Promise.all(
+    directories.sort().map(async (directory) => {
+      const packagePath = path.join(directory, 'package.json');
+
+      try {
+        const packageJson = await readJsonFile(packagePath);
+        return {
+          name: packageJson.name || path.basename(directory),
+          version: packageJson.version || '0.0.0',
+          directory,
+          packagePath,
+          dependencies: dependencySections.flatMap((section) =>
+            Object.keys(packageJson[section] ?? {})
+          ),
+        };
+      } catch {
+        // If package.json doesn't exist, use directory name and default version
+        return {
+          name: path.basename(directory),
+          version: '0.0.0',
+          directory,
+          packagePath,
+          dependencies: [],
+        };
+      }
+    })
+  );
+};
+
+/**
+ * @description Resolves the lockstep groups of `release.groups` into the group of each workspace package.
+ * @param groups - The groups, with the globs of their workspaces
+ * @param workspacePackages - The packages of the workspace
+ * @returns The group name by package name, for the grouped packages only
+ */
+export const findPackageGroups = async (
+  groups: { name: string; workspaces: string[] }[],
+  workspacePackages: WorkspacePackage[]
+): Promise<Map<string, string>> => {
+  const packageGroups = new Map<string, string>();
+
+  const groupDirectories = await Promise.all(
+    groups.map((group) =>
+      fg(group.workspaces, {
+        cwd: process.cwd(),
+        ignore: ignorePaths,
+        onlyDirectories: true,
+      })
+    )
+  );
+
+  // A package found in two groups is reported with the first one
+  for (const [index, group] of groups.entries()) {
+    const directories = groupDirectories[index];
+
+    for (const { name, directory } of workspacePackages) {
+      if (!directories.includes(directory)) {
+        continue;
+      }
+
+      if (packageGroups.has(name)) {
+        throw new OrbitItError({
+          message: `Package ${name} is in several groups`,
+          content: [
+            {
+              message: `It is in both ${packageGroups.get(name)} and ${group.name}.`,
+              target: 'release.groups',
+            },
+          ],
+        });
+      }
+
+      packageGroups.set(name, group.name);
+    }
+  }
+
+  return packageGroups;
+};
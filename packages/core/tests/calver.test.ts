@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { incrementCalver, isCalverFormat } from '../src/utils/calver';
+import { compareVersions } from '../src/utils/versions';
+
+describe('calver', () => {
+  it('should validate CalVer formats', () => {
+    expect(isCalverFormat('YYYY.MM.MICRO')).toBe(true);
+    expect(isCalverFormat('YY.0W.MICRO')).toBe(true);
+    expect(isCalverFormat('YYYY.MM')).toBe(false);
+    expect(isCalverFormat('MICRO.YYYY')).toBe(false);
+    expect(isCalverFormat('YYYY-MM.MICRO')).toBe(false);
+  });
+
+  it('should increment the micro counter within the same period', () => {
+    const date = new Date('2026-10-19T12:00:00Z');
+
+    expect(incrementCalver('YYYY.MM.MICRO', '2026.10.0', date)).toBe(
+      '2026.10.1'
+    );
+    expect(incrementCalver('YYYY.MM.MICRO', '2026.9.4', date)).toBe(
+      '2026.10.0'
+    );
+    expect(incrementCalver('YYYY.MM.MICRO', '1.4.2', date)).toBe('2026.10.0');
+  });
+
+  it('should render zero-padded and week tokens', () => {
+    expect(
+      incrementCalver('0Y.0M.0D.MICRO', '0.0.0.0', new Date('2026-03-05'))
+    ).toBe('26.03.05.0');
+    expect(
+      incrementCalver('YY.0W.MICRO', '26.42.0', new Date('2026-10-15'))
+    ).toBe('26.42.1');
+    // The ISO week of January 1st 2027 belongs to 2026
+    expect(
+      incrementCalver('YYYY.WW.MICRO', '2026.52.0', new Date('2027-01-01'))
+    ).toBe('2026.53.0');
+  });
+
+  it('should compare calendar versions segment by segment', () => {
+    expect(compareVersions('26.05.1', '26.05.0')).toBeGreaterThan(0);
+    expect(compareVersions('26.05.0', '26.10.0')).toBeLessThan(0);
+    expect(compareVersions('2026.10.0', '1.4.2')).toBeGreaterThan(0);
+    expect(compareVersions('1.0.0-beta.1', '1.0.0')).toBeLessThan(0);
+  });
+});
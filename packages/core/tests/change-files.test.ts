@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createChangeFileName,
+  formatChangeFile,
+  getHighestChangeBump,
+  parseChangeFile,
+} from '../src/utils/change-files';
+
+const summaryFileNameRegex = /^add-a-to-option-to-the-[0-9a-f]{6}\.md$/;
+const fallbackFileNameRegex = /^change-[0-9a-f]{6}\.md$/;
+
+describe('change files', () => {
+  it('should parse a formatted change file', () => {
+    const content = formatChangeFile({
+      bumps: { '@scope/core': 'minor', cli: 'patch' },
+      summary: 'Add a `--to` option\n\nIt ends the commit range.',
+    });
+
+    expect(content).toBe(
+      '---\n"@scope/core": minor\n"cli": patch\n---\n\nAdd a `--to` option\n\nIt ends the commit range.\n'
+    );
+    expect(parseChangeFile('.orbit-it/changes/add.md', content)).toEqual({
+      path: '.orbit-it/changes/add.md',
+      bumps: { '@scope/core': 'minor', cli: 'patch' },
+      summary: 'Add a `--to` option\n\nIt ends the commit range.',
+    });
+  });
+
+  it('should reject change files without a valid frontmatter', () => {
+    expect(parseChangeFile('a.md', 'Add a flag')).toBeNull();
+    expect(
+      parseChangeFile('a.md', '---\ncore: huge\n---\nAdd a flag')
+    ).toBeNull();
+  });
+
+  it('should get the highest bump', () => {
+    expect(getHighestChangeBump(['patch', 'major', 'minor'])).toBe('major');
+    expect(getHighestChangeBump(['patch', 'minor'])).toBe('minor');
+    expect(getHighestChangeBump([])).toBeNull();
+  });
+
+  it('should name change files after their summary', () => {
+    expect(
+      createChangeFileName('Add a `--to` option to the release command, again')
+    ).toMatch(summaryFileNameRegex);
+    expect(createChangeFileName('🎉')).toMatch(fallbackFileNameRegex);
+  });
+});
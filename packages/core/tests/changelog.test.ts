@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import {
+  changelogHeader,
+  formatChangelogSection,
+  prependChangelogSection,
+} from '../src/utils/changelog';
+
+describe('changelog', () => {
+  const section = formatChangelogSection({
+    title: '1.1.0',
+    date: '2025-01-02',
+    notes: '## Release Notes for v1.1.0\n\n### 🚀 Features\n- feat: add x\n\n',
+    compareUrl: 'https://github.com/owner/repo/compare/v1.0.0...v1.1.0',
+  });
+
+  it('should replace the notes heading with a dated, linked heading', () => {
+    expect(section).toBe(
+      '## [1.1.0](https://github.com/owner/repo/compare/v1.0.0...v1.1.0) (2025-01-02)\n\n### 🚀 Features\n- feat: add x\n'
+    );
+  });
+
+  it('should create the changelog with a header', () => {
+    expect(prependChangelogSection(null, '1.1.0', section)).toBe(
+      `${changelogHeader}\n${section}`
+    );
+  });
+
+  it('should add the section above the previous releases', () => {
+    const existing = `${changelogHeader}\n## 1.0.0 (2025-01-01)\n\n- Initial release\n`;
+
+    expect(prependChangelogSection(existing, '1.1.0', section)).toBe(
+      `${changelogHeader}\n${section}\n## 1.0.0 (2025-01-01)\n\n- Initial release\n`
+    );
+  });
+
+  it('should not duplicate an existing section', () => {
+    const changelog = prependChangelogSection(null, '1.1.0', section);
+
+    expect(prependChangelogSection(changelog, '1.1.0', section)).toBe(
+      changelog
+    );
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, expect, it } from 'vitest';
+import type { Commit } from '../src/types/git-client';
+import {
+  applyPullRequestTitles,
+  cancelRevertedCommits,
+  commitConventions,
+  parseCommit,
+  resolveCommitConvention,
+  resolveCommitTypes,
+} from '../src/utils/commits';
+
+const createCommit = (message: string, body = ''): Commit =>
+  ({ hash: 'abc1234', message, body }) as Commit;
+
+describe('parseCommit', () => {
+  it('should parse the type, scope and description', () => {
+    const parsed = parseCommit(createCommit('feat(cli): add --preid (#42)'));
+
+    expect(parsed).toMatchObject({
+      type: 'feat',
+      scope: 'cli',
+      isBreaking: false,
+      breakingDescription: null,
+      description: 'add --preid (#42)',
+      references: ['#42'],
+    });
+  });
+
+  it('should detect breaking changes from the subject', () => {
+    const parsed = parseCommit(createCommit('refactor!: drop Node 18'));
+
+    expect(parsed.isBreaking).toBe(true);
+    expect(parsed.breakingDescription).toBe('drop Node 18');
+  });
+
+  it('should split the body from its footers', () => {
+    const parsed = parseCommit(
+      createCommit(
+        'fix: handle empty tags',
+        'Tags without a version were ignored.\n\nBREAKING CHANGE: getTags returns\nan empty list\nCloses #12\nRefs: owner/repo#3'
+      )
+    );
+
+    expect(parsed.body).toBe('Tags without a version were ignored.');
+    expect(parsed.footers).toEqual([
+      { token: 'BREAKING CHANGE', value: 'getTags returns\nan empty list' },
+      { token: 'Closes', value: '#12' },
+      { token: 'Refs', value: 'owner/repo#3' },
+    ]);
+    expect(parsed.isBreaking).toBe(true);
+    expect(parsed.breakingDescription).toBe('getTags returns\nan empty list');
+    expect(parsed.references).toEqual(['#12', 'owner/repo#3']);
+  });
+
+  it('should only parse footers from the final paragraphs', () => {
+    const parsed = parseCommit(
+      createCommit(
+        'fix: handle empty tags',
+        'Note: see below.\n\nMore text.\n\nCloses #12'
+      )
+    );
+
+    expect(parsed.body).toBe('Note: see below.\n\nMore text.');
+    expect(parsed.footers).toEqual([{ token: 'Closes', value: '#12' }]);
+
+    const withoutFooters = parseCommit(
+      createCommit('fix: handle empty tags', 'Note: see below.\n\nMore text.')
+    );
+
+    expect(withoutFooters.body).toBe('Note: see below.\n\nMore text.');
+    expect(withoutFooters.footers).toEqual([]);
+  });
+
+  it('should fall back to the other type', () => {
+    const parsed = parseCommit(createCommit('Update README'));
+
+    expect(parsed.type).toBe('other');
+    expect(parsed.description).toBe('Update README');
+  });
+});
+
+describe('commit conventions', () => {
+  it('should map gitmojis and their codes to commit types', () => {
+    const { gitmoji } = commitConventions;
+
+    expect(parseCommit(createCommit('✨ add x'), gitmoji)).toMatchObject({
+      type: 'feat',
+      description: 'add x',
+    });
+    expect(parseCommit(createCommit(':bug: fix y'), gitmoji).type).toBe('fix');
+    expect(parseCommit(createCommit('⚡️ faster z'), gitmoji).type).toBe('perf');
+    expect(parseCommit(createCommit('💥 drop v1'), gitmoji).isBreaking).toBe(
+      true
+    );
+  });
+
+  it('should only recognize Angular types with the angular preset', () => {
+    const { angular } = commitConventions;
+
+    expect(parseCommit(createCommit('ci: cache pnpm'), angular).type).toBe(
+      'ci'
+    );
+    expect(parseCommit(createCommit('chore: bump'), angular).type).toBe(
+      'other'
+    );
+  });
+
+  it('should parse custom patterns and map their types', () => {
+    const convention = resolveCommitConvention({
+      preset: 'custom',
+      pattern: '^\\[(?<type>[A-Z]+)\\] (?<description>.+)$',
+      types: { FEATURE: 'feat', BUGFIX: 'fix' },
+    });
+
+    expect(
+      parseCommit(createCommit('[FEATURE] add x'), convention)
+    ).toMatchObject({ type: 'feat', description: 'add x' });
+    expect(parseCommit(createCommit('[DOCS] y'), convention).type).toBe('DOCS');
+  });
+});
+
+describe('resolveCommitTypes', () => {
+  it('should merge the configured types with the defaults', () => {
+    const types = resolveCommitTypes({
+      chore: { hidden: true },
+      security: { label: '🔒 Security', bump: 'patch' },
+      deps: { label: '📦 Dependencies', order: 0 },
+    });
+
+    expect(types[0]).toMatchObject({ type: 'deps', order: 0, bump: 'none' });
+    expect(types.find(({ type }) => type === 'chore')).toMatchObject({
+      label: '🔧 Chores',
+      hidden: true,
+    });
+    expect(types.at(-2)).toMatchObject({
+      type: 'security',
+      label: '🔒 Security',
+      bump: 'patch',
+    });
+    expect(types.at(-1).type).toBe('other');
+  });
+});
+
+describe('cancelRevertedCommits', () => {
+  const parse = (hash: string, message: string, body = '') =>
+    parseCommit({ hash, message, body } as Commit);
+
+  it('should cancel reverts of commits in the same range', () => {
+    const commits = [
+      parse('ccc3333', 'Revert "feat: add x"', 'This reverts commit aaa1111.'),
+      parse('bbb2222', 'fix: keep y'),
+      parse('aaa1111', 'feat: add x'),
+    ];
+
+    expect(
+      cancelRevertedCommits(commits).map(({ commit }) => commit.hash)
+    ).toEqual(['bbb2222']);
+  });
+
+  it('should restore a commit whose revert was reverted', () => {
+    const commits = [
+      parse(
+        'ccc3333',
+        'Revert "Revert "feat: add x""',
+        'This reverts commit bbb2222.'
+      ),
+      parse('bbb2222', 'Revert "feat: add x"', 'This reverts commit aaa1111.'),
+      parse('aaa1111', 'feat: add x'),
+    ];
+
+    expect(
+      cancelRevertedCommits(commits).map(({ commit }) => commit.hash)
+    ).toEqual(['aaa1111']);
+  });
+
+  it('should keep reverts of earlier releases as revert commits', () => {
+    const [revert] = cancelRevertedCommits([
+      parse('ccc3333', 'Revert "feat: add x"', 'This reverts commit 0001111.'),
+    ]);
+
+    expect(revert).toMatchObject({
+      type: 'revert',
+      description: 'feat: add x',
+      revertedHash: '0001111',
+    });
+  });
+});
+
+describe('applyPullRequestTitles', () => {
+  it('should use the pull request title as subject of merge commits', () => {
+    const [merge, commit] = applyPullRequestTitles([
+      createCommit(
+        'Merge pull request #12 from octocat/feature',
+        'feat(cli): add a flag\n\nCloses #10'
+      ),
+      createCommit('fix: keep y'),
+    ]);
+
+    expect(merge).toMatchObject({
+      message: 'feat(cli): add a flag (#12)',
+      body: 'Closes #10',
+    });
+    expect(commit.message).toBe('fix: keep y');
+    expect(parseCommit(merge).type).toBe('feat');
+  });
+
+  it('should keep merge commits without a title', () => {
+    const [merge] = applyPullRequestTitles([
+      createCommit('Merge pull request #12 from octocat/feature'),
+    ]);
+
+    expect(merge.message).toBe('Merge pull request #12 from octocat/feature');
+  });
+});
@@ -0,0 +1,68 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import FileChangeSet from '../src/lib/file-change-set';
+
+describe('FileChangeSet', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(
+      path.join(os.tmpdir(), 'orbit-it-change-set-')
+    );
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should collect edits without writing them', async () => {
+    const packagePath = path.join(dir, 'package.json');
+    await fs.promises.writeFile(packagePath, '{"version":"1.0.0"}\n');
+
+    const changes = new FileChangeSet();
+
+    await changes.editJson(packagePath, (packageJson) => {
+      packageJson.version = '1.1.0';
+    });
+    await changes.editJson(packagePath, (packageJson) => {
+      packageJson.private = true;
+    });
+
+    const [change] = changes.list();
+
+    expect(change.before).toBe('{"version":"1.0.0"}\n');
+    expect(change.after).toBe(
+      '{\n  "version": "1.1.0",\n  "private": true\n}\n'
+    );
+    expect(await fs.promises.readFile(packagePath, 'utf8')).toBe(
+      '{"version":"1.0.0"}\n'
+    );
+  });
+
+  it('should leave untouched JSON files out of the list', async () => {
+    const packagePath = path.join(dir, 'package.json');
+    await fs.promises.writeFile(packagePath, '{"version":"1.0.0"}');
+
+    const changes = new FileChangeSet();
+
+    await changes.editJson(packagePath, () => {
+      // no changes
+    });
+
+    expect(changes.list()).toEqual([]);
+  });
+
+  it('should track created and missing files', async () => {
+    const changes = new FileChangeSet();
+
+    await changes.write(path.join(dir, 'CHANGELOG.md'), '# Changelog\n');
+    const isEdited = await changes.edit(path.join(dir, 'setup.py'), (c) => c);
+
+    expect(isEdited).toBe(false);
+    expect(changes.list()).toEqual([
+      expect.objectContaining({ before: null, after: '# Changelog\n' }),
+    ]);
+  });
+});
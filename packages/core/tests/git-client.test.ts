@@ -0,0 +1,188 @@
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import GitClient from '../src/lib/git-client';
+import { findLatestTag } from '../src/utils/tags';
+
+describe('GitClient', () => {
+  let repoDirectory: string;
+
+  const git = (...args: string[]) =>
+    execFileSync('git', args, { cwd: repoDirectory, stdio: 'pipe' }).toString();
+
+  const commit = (message: string) =>
+    git('commit', '--allow-empty', '-m', message);
+
+  beforeEach(async () => {
+    repoDirectory = await fs.promises.mkdtemp(
+      path.join(os.tmpdir(), 'orbit-it-git-')
+    );
+    git('init', '--initial-branch=main');
+    git('config', 'user.name', 'Orbit');
+    git('config', 'user.email', 'orbit@example.com');
+    vi.spyOn(process, 'cwd').mockReturnValue(repoDirectory);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.promises.rm(repoDirectory, { recursive: true, force: true });
+  });
+
+  it('should find the latest release after a maintenance branch is merged', async () => {
+    commit('feat: first release');
+    git('tag', 'v1.0.0');
+    git('checkout', '-b', 'maint');
+    commit('fix: patch the first release');
+    git('tag', 'v1.0.1');
+    git('checkout', 'main');
+    commit('feat: second release');
+    git('tag', 'v1.1.0');
+    git('merge', '--no-ff', '-m', 'chore: merge maint', 'maint');
+
+    const tags = await new GitClient().getReachableTags();
+
+    expect(tags).toEqual(['v1.0.0', 'v1.0.1', 'v1.1.0']);
+    expect(findLatestTag('v{version}', tags, 'repo')).toBe('v1.1.0');
+  });
+
+  it('should skip the tags of unmerged branches', async () => {
+    commit('feat: first release');
+    git('tag', 'v1.0.0');
+    git('checkout', '-b', 'next');
+    commit('feat: prerelease');
+    git('tag', 'v2.0.0-beta.0');
+    git('checkout', 'main');
+
+    expect(await new GitClient().getReachableTags()).toEqual(['v1.0.0']);
+    expect(await new GitClient().getReachableTags('next')).toEqual([
+      'v1.0.0',
+      'v2.0.0-beta.0',
+    ]);
+  });
+
+  it('should commit the removal of a change file that was never committed', async () => {
+    await fs.promises.writeFile(
+      path.join(repoDirectory, 'package.json'),
+      '{"version":"1.0.0"}\n'
+    );
+    await fs.promises.mkdir(path.join(repoDirectory, '.orbit-it/changes'), {
+      recursive: true,
+    });
+    await fs.promises.writeFile(
+      path.join(repoDirectory, '.orbit-it/changes/committed.md'),
+      '---\n"repo": patch\n---\n\nFix a bug\n'
+    );
+    git('add', '-A');
+    commit('chore: add a change');
+
+    // The second change file is created and consumed without being committed
+    await fs.promises.writeFile(
+      path.join(repoDirectory, '.orbit-it/changes/uncommitted.md'),
+      '---\n"repo": minor\n---\n\nAdd a flag\n'
+    );
+    await fs.promises.writeFile(
+      path.join(repoDirectory, 'package.json'),
+      '{"version":"1.1.0"}\n'
+    );
+    await fs.promises.rm(path.join(repoDirectory, '.orbit-it/changes'), {
+      recursive: true,
+    });
+
+    await new GitClient().commitFiles({
+      message: 'chore(release): v1.1.0',
+      files: [
+        'package.json',
+        '.orbit-it/changes/committed.md',
+        '.orbit-it/changes/uncommitted.md',
+      ],
+    });
+
+    expect(git('ls-files')).toBe('package.json\n');
+    expect(git('status', '--porcelain')).toBe('');
+  });
+
+  it('should leave the ignored files out of the release commit', async () => {
+    await fs.promises.writeFile(
+      path.join(repoDirectory, '.gitignore'),
+      '.env\n'
+    );
+    git('add', '-A');
+    commit('chore: ignore the env file');
+
+    await fs.promises.writeFile(path.join(repoDirectory, '.env'), 'TOKEN=1\n');
+    await fs.promises.writeFile(
+      path.join(repoDirectory, 'CHANGELOG.md'),
+      '# Changelog\n'
+    );
+
+    await new GitClient().commitFiles({
+      message: 'chore(release): v1.1.0',
+      files: ['CHANGELOG.md', '.env'],
+    });
+
+    expect(git('ls-files')).toBe('.gitignore\nCHANGELOG.md\n');
+  });
+
+  it('should only get the commits touching the given paths', async () => {
+    const commitFile = async (filePath: string, message: string) => {
+      await fs.promises.mkdir(
+        path.dirname(path.join(repoDirectory, filePath)),
+        {
+          recursive: true,
+        }
+      );
+      await fs.promises.appendFile(
+        path.join(repoDirectory, filePath),
+        `${message}\n`
+      );
+      git('add', '-A');
+      commit(message);
+    };
+
+    await commitFile('packages/core/index.ts', 'feat(core): first release');
+    git('tag', 'core@1.0.0');
+    await commitFile('packages/cli/index.ts', 'feat(cli): add a flag');
+    await commitFile('packages/core/index.ts', 'fix(core): handle empty tags');
+    await commitFile('README.md', 'docs: add a readme');
+
+    const gitClient = new GitClient();
+    const getMessages = async (options: { from?: string; paths: string[] }) =>
+      (await gitClient.getCommits(options)).map(({ message }) => message);
+
+    expect(
+      await getMessages({ from: 'core@1.0.0', paths: ['packages/core'] })
+    ).toEqual(['fix(core): handle empty tags']);
+    expect(await getMessages({ paths: ['packages/cli'] })).toEqual([
+      'feat(cli): add a flag',
+    ]);
+    expect(await getMessages({ paths: ['packages/core'] })).toEqual([
+      'fix(core): handle empty tags',
+      'feat(core): first release',
+    ]);
+  });
+
+  it('should only push the given tags', async () => {
+    const remoteDirectory = `${repoDirectory}-remote`;
+    execFileSync('git', ['init', '--bare', remoteDirectory], { stdio: 'pipe' });
+    git('remote', 'add', 'origin', remoteDirectory);
+
+    commit('feat: first release');
+    git('tag', 'v1.0.0');
+    git('tag', 'local-only');
+    commit('feat: second release');
+    git('tag', '-a', 'v1.1.0', '-m', 'Release v1.1.0');
+
+    await new GitClient().pushTags(['v1.0.0', 'v1.1.0']);
+
+    const remoteTags = execFileSync('git', ['tag'], {
+      cwd: remoteDirectory,
+      stdio: 'pipe',
+    }).toString();
+
+    expect(remoteTags).toBe('v1.0.0\nv1.1.0\n');
+
+    await fs.promises.rm(remoteDirectory, { recursive: true, force: true });
+  });
+});
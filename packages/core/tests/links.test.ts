@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { linkIssue, linkPullRequests } from '../src/utils/links';
+
+describe('links', () => {
+  const repositoryUrl = 'https://github.com/owner/repo';
+
+  it('should link the pull requests of a commit subject', () => {
+    expect(linkPullRequests(repositoryUrl, 'feat: add x (#123)')).toBe(
+      'feat: add x ([#123](https://github.com/owner/repo/pull/123))'
+    );
+  });
+
+  it('should link issues of the same or another repository', () => {
+    expect(linkIssue(repositoryUrl, '#45')).toBe(
+      '[#45](https://github.com/owner/repo/issues/45)'
+    );
+    expect(linkIssue(repositoryUrl, 'other/lib#7')).toBe(
+      '[other/lib#7](https://github.com/other/lib/issues/7)'
+    );
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatManifest,
+  parseManifest,
+  updateManifest,
+} from '../src/utils/manifest';
+
+describe('manifest', () => {
+  it('should record releases and keep the other packages', () => {
+    const manifest = updateManifest(
+      {
+        packages: {
+          core: { version: '1.0.0', tag: 'core@1.0.0' },
+          cli: { version: '0.1.0', tag: null },
+        },
+      },
+      [{ name: 'cli', version: '0.2.0', tagName: 'cli@0.2.0' }]
+    );
+
+    expect(manifest).toEqual({
+      packages: {
+        core: { version: '1.0.0', tag: 'core@1.0.0' },
+        cli: { version: '0.2.0', tag: 'cli@0.2.0' },
+      },
+    });
+    expect(parseManifest(formatManifest(manifest))).toEqual(manifest);
+  });
+
+  it('should sort the packages by name', () => {
+    expect(
+      formatManifest({
+        packages: {
+          b: { version: '1.0.0', tag: null },
+          a: { version: '2.0.0', tag: 'a@2.0.0' },
+        },
+      })
+    ).toBe(
+      '{\n  "packages": {\n    "a": {\n      "version": "2.0.0",\n      "tag": "a@2.0.0"\n    },\n    "b": {\n      "version": "1.0.0",\n      "tag": null\n    }\n  }\n}\n'
+    );
+  });
+
+  it('should reject invalid manifests', () => {
+    expect(parseManifest('{')).toBeNull();
+    expect(parseManifest('{"versions": {}}')).toBeNull();
+    expect(
+      parseManifest('{"packages": {"a": {"version": "latest", "tag": null}}}')
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { runSequentially } from '../src/utils/promises';
+
+describe('promises', () => {
+  it('should run the tasks one after the other', async () => {
+    const calls: string[] = [];
+
+    const results = await runSequentially([30, 10, 20], async (delay) => {
+      calls.push(`start ${delay}`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      calls.push(`end ${delay}`);
+
+      return delay * 2;
+    });
+
+    expect(results).toEqual([60, 20, 40]);
+    expect(calls).toEqual([
+      'start 30',
+      'end 30',
+      'start 10',
+      'end 10',
+      'start 20',
+      'end 20',
+    ]);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import {
+  appendPullRequestMetadata,
+  readPullRequestMetadata,
+} from '../src/utils/pull-requests';
+
+describe('pull requests', () => {
+  it('should keep metadata in the body of a pull request', () => {
+    const releases = [
+      { tagName: 'v1.2.0', releaseNotes: '## Notes\n\n<!-- comment -->' },
+    ];
+    const body = appendPullRequestMetadata('Release v1.2.0\n', releases);
+
+    expect(body.startsWith('Release v1.2.0\n\n<!-- orbit-it:metadata ')).toBe(
+      true
+    );
+    expect(readPullRequestMetadata(body)).toEqual(releases);
+  });
+
+  it('should ignore bodies without metadata', () => {
+    expect(readPullRequestMetadata('Release v1.2.0')).toBeNull();
+    expect(readPullRequestMetadata(null)).toBeNull();
+  });
+});
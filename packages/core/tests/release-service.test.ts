@@ -0,0 +1,966 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import FileChangeSet from '../src/lib/file-change-set';
+import type GitClient from '../src/lib/git-client';
+import type GitHubClient from '../src/lib/github-client';
+import ReleaseTransaction from '../src/lib/release-transaction';
+import ReleaseService, {
+  type ReleasePlan,
+} from '../src/lib/services/release-service';
+import WorkspaceGraph from '../src/lib/workspace-graph';
+import { configSchema } from '../src/schemas/config-schema';
+import type { Commit } from '../src/types/git-client';
+import type { WorkspacePackage } from '../src/types/workspace-graph';
+import { OrbitItError } from '../src/utils/errors';
+import {
+  appendPullRequestMetadata,
+  readPullRequestMetadata,
+} from '../src/utils/pull-requests';
+
+const createCommit = (
+  message: string,
+  overrides: Partial<Commit> = {}
+): Commit => ({
+  hash: 'abcdef1',
+  date: '2026-01-01T00:00:00+00:00',
+  message,
+  refs: '',
+  body: '',
+  author_name: 'Ada',
+  author_email: 'ada@example.com',
+  ...overrides,
+});
+
+const createPackage = (
+  name: string,
+  overrides: Partial<WorkspacePackage> = {}
+): WorkspacePackage => ({
+  name,
+  version: '1.0.0',
+  directory: `packages/${name}`,
+  packagePath: `packages/${name}/package.json`,
+  dependencies: [],
+  ...overrides,
+});
+
+// The tested steps are private, they are exposed through their own types
+type ReleaseServiceSteps = {
+  inferReleaseBump: ReleaseService['inferReleaseBump'];
+  incrementVersion: ReleaseService['incrementVersion'];
+  getLatestTag: ReleaseService['getLatestTag'];
+  getChangedPackages: ReleaseService['getChangedPackages'];
+  getContributors: ReleaseService['getContributors'];
+  executeReleasePlan: ReleaseService['executeReleasePlan'];
+  transaction: ReleaseService['transaction'];
+  rollback: ReleaseService['rollback'];
+  packageGroups: ReleaseService['packageGroups'];
+  resolvePackageBumps: ReleaseService['resolvePackageBumps'];
+  getReleaseMembers: ReleaseService['getReleaseMembers'];
+  createReleasePlan: ReleaseService['createReleasePlan'];
+  githubClient: ReleaseService['githubClient'];
+  repoInfo: ReleaseService['repoInfo'];
+  generateReleaseNotes: ReleaseService['generateReleaseNotes'];
+  publishReleasePullRequest: ReleaseService['publishReleasePullRequest'];
+  getWorkspacePackages: ReleaseService['getWorkspacePackages'];
+  versionStrategyIndependentRelease: ReleaseService['versionStrategyIndependentRelease'];
+};
+
+const createService = (
+  release: Record<string, unknown> = {},
+  gitClient = {} as GitClient
+) =>
+  new ReleaseService('fake-token', {
+    config: configSchema.parse({
+      project: {
+        type: 'monorepo',
+        environment: 'nodejs',
+        packageManager: 'pnpm',
+        workspaces: ['packages/*'],
+        version: '1.0.0',
+      },
+      release: {
+        strategy: 'auto',
+        versioningStrategy: 'fixed',
+        preReleaseIdentifier: 'beta',
+        ...release,
+      },
+    }),
+    gitClient,
+  }) as unknown as ReleaseServiceSteps;
+
+describe('ReleaseService', () => {
+  describe('inferReleaseBump', () => {
+    it('should bump minor for features and patch for fixes', () => {
+      const service = createService();
+      const feature = createCommit('feat: add a flag');
+      const fix = createCommit('fix: handle empty tags');
+
+      expect(service.inferReleaseBump([fix, feature])).toEqual({
+        type: 'minor',
+        commits: [feature],
+        changeFiles: [],
+      });
+      expect(
+        service.inferReleaseBump([fix, createCommit('perf: cache the tags')])
+          .type
+      ).toBe('patch');
+    });
+
+    it('should bump major for breaking changes', () => {
+      const service = createService();
+      const breaking = createCommit('refactor!: drop node 18');
+      const breakingFooter = createCommit('feat: rename the config', {
+        body: 'BREAKING CHANGE: `version` is now `project.version`.',
+      });
+
+      expect(
+        service.inferReleaseBump([
+          createCommit('feat: add a flag'),
+          breaking,
+          breakingFooter,
+        ])
+      ).toEqual({
+        type: 'major',
+        commits: [breaking, breakingFooter],
+        changeFiles: [],
+      });
+    });
+
+    it('should not release commits that bump nothing', () => {
+      const service = createService();
+
+      expect(
+        service.inferReleaseBump([
+          createCommit('docs: fix a typo'),
+          createCommit('chore: update dependencies'),
+        ]).type
+      ).toBeNull();
+    });
+
+    it('should follow semver for versions before 1.0.0', () => {
+      const service = createService();
+      const bumpVersion = (message: string) =>
+        service.incrementVersion(
+          '0.3.1',
+          service.inferReleaseBump([createCommit(message)]).type,
+          'beta'
+        );
+
+      expect(bumpVersion('fix: handle empty tags')).toBe('0.3.2');
+      expect(bumpVersion('feat: add a flag')).toBe('0.4.0');
+      expect(bumpVersion('feat!: drop node 18')).toBe('1.0.0');
+    });
+  });
+
+  describe('prereleases', () => {
+    it('should increment versions with the prerelease identifier', () => {
+      const service = createService();
+
+      expect(service.incrementVersion('1.0.0', 'prepatch', 'beta')).toBe(
+        '1.0.1-beta.0'
+      );
+      expect(service.incrementVersion('1.0.0', 'preminor', 'beta')).toBe(
+        '1.1.0-beta.0'
+      );
+      expect(service.incrementVersion('1.0.0', 'premajor', 'rc')).toBe(
+        '2.0.0-rc.0'
+      );
+    });
+
+    it('should bump the prerelease counter', () => {
+      const service = createService();
+
+      expect(
+        service.incrementVersion('1.1.0-beta.0', 'prerelease', 'beta')
+      ).toBe('1.1.0-beta.1');
+      expect(service.incrementVersion('1.1.0', 'prerelease', 'beta')).toBe(
+        '1.1.1-beta.0'
+      );
+    });
+
+    it('should graduate a prerelease to its stable version', () => {
+      const service = createService();
+
+      expect(service.incrementVersion('1.2.0-beta.4', 'graduate', 'beta')).toBe(
+        '1.2.0'
+      );
+      expect(() =>
+        service.incrementVersion('1.2.0', 'graduate', 'beta')
+      ).toThrow('Version 1.2.0 is not a prerelease');
+    });
+
+    it('should release the dependents of a prerelease as prereleases', () => {
+      const service = createService({ versioningStrategy: 'independent' });
+      const workspacePackages = [
+        createPackage('a'),
+        createPackage('b', { version: '2.0.0', dependencies: ['a'] }),
+      ];
+
+      const bumps = service.resolvePackageBumps(
+        'prerelease',
+        [
+          {
+            ...workspacePackages[0],
+            commits: [createCommit('fix: handle empty tags')],
+            changeFiles: [],
+          },
+        ],
+        new WorkspaceGraph(workspacePackages)
+      );
+
+      expect(bumps.get('b').type).toBe('prerelease');
+      expect(
+        service.incrementVersion('1.0.0', bumps.get('a').type, 'beta')
+      ).toBe('1.0.1-beta.0');
+      expect(
+        service.incrementVersion('2.0.0', bumps.get('b').type, 'beta')
+      ).toBe('2.0.1-beta.0');
+
+      const preminorBumps = service.resolvePackageBumps(
+        'preminor',
+        [
+          {
+            ...workspacePackages[0],
+            commits: [createCommit('feat: add a flag')],
+            changeFiles: [],
+          },
+        ],
+        new WorkspaceGraph(workspacePackages)
+      );
+
+      expect(preminorBumps.get('b').type).toBe('prepatch');
+    });
+
+    it('should gather the commits of every prerelease since the latest stable tag when graduating', async () => {
+      const tags = [
+        'cli@1.0.0',
+        'core@1.1.0',
+        'core@1.2.0-beta.0',
+        'core@1.2.0-beta.1',
+      ];
+      const commits = [
+        createCommit('fix: handle empty tags', { hash: 'bbbbbbb' }),
+        createCommit('feat: add a flag', { hash: 'aaaaaaa' }),
+      ];
+      const gitClient = {
+        getCommits: vi.fn(({ from }: { from?: string }) =>
+          from === 'core@1.1.0' ? commits : []
+        ),
+      } as unknown as GitClient;
+      const service = createService(
+        { versioningStrategy: 'independent' },
+        gitClient
+      );
+      const workspacePackages: WorkspacePackage[] = [
+        {
+          name: 'core',
+          version: '1.2.0-beta.1',
+          directory: 'packages/core',
+          packagePath: 'packages/core/package.json',
+          dependencies: [],
+        },
+        {
+          name: 'cli',
+          version: '1.0.0',
+          directory: 'packages/cli',
+          packagePath: 'packages/cli/package.json',
+          dependencies: [],
+        },
+      ];
+
+      expect(service.getLatestTag(tags, 'core')).toBe('core@1.2.0-beta.1');
+      expect(service.getLatestTag(tags, 'core', true)).toBe('core@1.1.0');
+
+      const changedPackages = await service.getChangedPackages(
+        workspacePackages,
+        tags,
+        [],
+        {},
+        true
+      );
+
+      expect(changedPackages).toEqual([
+        {
+          ...workspacePackages[0],
+          previousTag: 'core@1.1.0',
+          commits,
+          changeFiles: [],
+        },
+      ]);
+      expect(gitClient.getCommits).toHaveBeenCalledWith(
+        expect.objectContaining({
+          from: 'core@1.1.0',
+          paths: ['packages/core'],
+        })
+      );
+    });
+  });
+
+  describe('getContributors', () => {
+    const ada = { author_name: 'Ada', author_email: 'ada@example.com' };
+    const grace = { author_name: 'Grace', author_email: 'grace@example.com' };
+    const linus = { author_name: 'Linus', author_email: 'linus@example.com' };
+    const commits = [
+      createCommit('feat: add a flag', { hash: 'aaaaaaa', ...ada }),
+      createCommit('fix: handle empty tags', { hash: 'bbbbbbb', ...grace }),
+      createCommit('fix: trim the notes', { hash: 'ccccccc', ...ada }),
+      createCommit('docs: fix a typo', { hash: 'ddddddd', ...linus }),
+      createCommit('chore(deps): bump semver', {
+        hash: 'eeeeeee',
+        author_name: 'dependabot[bot]',
+        author_email: '49699333+dependabot[bot]@users.noreply.github.com',
+      }),
+    ];
+    const authorLogins = new Map([
+      ['ada@example.com', 'ada'],
+      ['grace@example.com', 'grace'],
+      ['linus@example.com', null],
+    ]);
+
+    it('should list each author once and flag first contributions', async () => {
+      const gitClient = {
+        getAuthorFirstCommits: vi.fn(
+          async () =>
+            new Map([
+              ['ada@example.com', '1111111'],
+              ['grace@example.com', 'bbbbbbb'],
+              ['linus@example.com', 'ddddddd'],
+            ])
+        ),
+      } as unknown as GitClient;
+      const service = createService({}, gitClient);
+
+      expect(await service.getContributors(commits, authorLogins)).toEqual([
+        { name: '@ada', login: 'ada', firstContribution: false },
+        { name: '@grace', login: 'grace', firstContribution: true },
+        { name: 'Linus', login: null, firstContribution: true },
+      ]);
+    });
+
+    it('should leave out the ignored authors', async () => {
+      const gitClient = {
+        getAuthorFirstCommits: vi.fn(async () => new Map<string, string>()),
+      } as unknown as GitClient;
+      const service = createService(
+        { notes: { ignoreAuthors: ['grace'] } },
+        gitClient
+      );
+
+      expect(
+        (await service.getContributors(commits, authorLogins)).map(
+          ({ name }) => name
+        )
+      ).toEqual(['@ada', 'Linus', 'dependabot[bot]']);
+    });
+  });
+
+  describe('executeReleasePlan', () => {
+    let dir: string;
+    let packagePath: string;
+
+    beforeEach(async () => {
+      dir = await fs.promises.mkdtemp(
+        path.join(os.tmpdir(), 'orbit-it-release-')
+      );
+      packagePath = path.join(dir, 'package.json');
+      await fs.promises.writeFile(packagePath, '{"version":"1.0.0"}\n');
+    });
+
+    afterEach(async () => {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    });
+
+    const createExecution = (pushTags: (tagNames: string[]) => void) => {
+      const calls: string[] = [];
+      const gitClient = {
+        getHeadCommit: vi.fn(() => 'abc1234'),
+        commitFiles: vi.fn(({ message }: { message: string }) => {
+          calls.push(`commit ${message}`);
+        }),
+        createTag: vi.fn(({ tagName }: { tagName: string }) => {
+          calls.push(`tag ${tagName}`);
+        }),
+        pushTags: vi.fn((tagNames: string[]) => {
+          calls.push(`push tags ${tagNames.join(' ')}`);
+          pushTags(tagNames);
+        }),
+        pushBranch: vi.fn((branchName: string) => {
+          calls.push(`push branch ${branchName}`);
+        }),
+        resetToCommit: vi.fn((commitHash: string) => {
+          calls.push(`reset ${commitHash}`);
+        }),
+        deleteTag: vi.fn((tagName: string) => {
+          calls.push(`delete tag ${tagName}`);
+        }),
+      } as unknown as GitClient;
+      const service = createService({}, gitClient);
+      service.transaction = new ReleaseTransaction(
+        gitClient,
+        {} as GitHubClient,
+        { owner: 'owner', repo: 'repo' }
+      );
+
+      const plan: ReleasePlan = {
+        releases: [],
+        files: [
+          {
+            path: packagePath,
+            before: '{"version":"1.0.0"}\n',
+            after: '{"version":"1.1.0"}\n',
+          },
+        ],
+        commitMessage: 'chore(release): core@1.1.0, cli@2.0.0',
+        tags: ['core@1.1.0', 'cli@2.0.0'],
+        tagTarget: null,
+        branch: 'main',
+        githubReleases: [],
+        pullRequest: null,
+      };
+
+      return { service, gitClient, plan, calls };
+    };
+
+    it('should commit, tag and push only the new tags, in order', async () => {
+      const { service, gitClient, plan, calls } = createExecution(() => {
+        // the tags are pushed
+      });
+
+      await service.executeReleasePlan(plan);
+
+      expect(calls).toEqual([
+        'commit chore(release): core@1.1.0, cli@2.0.0',
+        'tag core@1.1.0',
+        'tag cli@2.0.0',
+        'push tags core@1.1.0 cli@2.0.0',
+        'push branch main',
+      ]);
+      expect(gitClient.pushTags).toHaveBeenCalledWith(plan.tags);
+      expect(await fs.promises.readFile(packagePath, 'utf8')).toBe(
+        '{"version":"1.1.0"}\n'
+      );
+    });
+
+    it('should undo the release commit, the tags and the files when a step fails', async () => {
+      const { service, plan, calls } = createExecution(() => {
+        throw new Error('remote rejected');
+      });
+
+      const error = await service
+        .executeReleasePlan(plan)
+        .catch((foundError: Error) => foundError);
+
+      expect(error).toBeInstanceOf(Error);
+
+      const rollbackError = await service.rollback(
+        new OrbitItError({ message: 'remote rejected' })
+      );
+
+      expect(calls.slice(4)).toEqual([
+        'delete tag cli@2.0.0',
+        'delete tag core@1.1.0',
+        'reset abc1234',
+      ]);
+      expect(await fs.promises.readFile(packagePath, 'utf8')).toBe(
+        '{"version":"1.0.0"}\n'
+      );
+      expect(rollbackError.message).toBe(
+        'remote rejected (release rolled back)'
+      );
+      expect(rollbackError.content).toEqual([
+        { message: 'Deleted local tag cli@2.0.0', target: 'rolled back' },
+        { message: 'Deleted local tag core@1.1.0', target: 'rolled back' },
+        {
+          message: 'Reset the release commit to abc1234',
+          target: 'rolled back',
+        },
+        {
+          message: `Restored ${path.relative(process.cwd(), packagePath)}`,
+          target: 'rolled back',
+        },
+      ]);
+    });
+  });
+
+  describe('lockstep groups', () => {
+    const createGroupedService = () => {
+      const service = createService({ versioningStrategy: 'independent' });
+      service.packageGroups = new Map([
+        ['ui-1', 'ui'],
+        ['ui-2', 'ui'],
+      ]);
+
+      return service;
+    };
+
+    it('should release the whole group when one member changed', () => {
+      const service = createGroupedService();
+      const feature = createCommit('feat: add a button');
+      const workspacePackages = [
+        createPackage('core'),
+        createPackage('ui-1', { version: '1.2.0' }),
+        createPackage('ui-2', { version: '1.1.0' }),
+      ];
+      const changedPackages = [
+        {
+          ...workspacePackages[1],
+          previousTag: 'ui@1.2.0',
+          commits: [feature],
+          changeFiles: [],
+        },
+      ];
+
+      const bumps = service.resolvePackageBumps(
+        undefined,
+        changedPackages,
+        new WorkspaceGraph(workspacePackages)
+      );
+
+      expect([...bumps.keys()]).toEqual(['ui-1', 'ui-2']);
+      expect(bumps.get('ui-2')).toEqual({
+        type: 'minor',
+        commits: [],
+        changeFiles: [],
+      });
+
+      const { members, previousVersion, previousTag, commits, bump } =
+        service.getReleaseMembers(
+          'ui',
+          workspacePackages,
+          changedPackages,
+          bumps
+        );
+
+      expect(members.map(({ name }) => name)).toEqual(['ui-1', 'ui-2']);
+      expect(previousVersion).toBe('1.2.0');
+      expect(previousTag).toBe('ui@1.2.0');
+      expect(commits).toEqual([feature]);
+      expect(bump.type).toBe('minor');
+    });
+
+    it('should keep the prerelease type for the whole group', () => {
+      const service = createGroupedService();
+      const workspacePackages = [
+        createPackage('ui-1'),
+        createPackage('ui-2', { dependencies: ['ui-1'] }),
+      ];
+
+      const bumps = service.resolvePackageBumps(
+        'prerelease',
+        [
+          {
+            ...workspacePackages[0],
+            commits: [createCommit('fix: align the icons')],
+            changeFiles: [],
+          },
+        ],
+        new WorkspaceGraph(workspacePackages)
+      );
+
+      expect(bumps.get('ui-1').type).toBe('prerelease');
+      expect(bumps.get('ui-2').type).toBe('prerelease');
+      expect(
+        service.incrementVersion('1.0.0', bumps.get('ui-2').type, 'beta')
+      ).toBe('1.0.1-beta.0');
+    });
+  });
+
+  describe('createReleasePlan', () => {
+    const createPlanService = () =>
+      createService({}, {
+        getCurrentBranch: vi.fn(() => 'main'),
+        getHeadCommit: vi.fn(() => 'aaaaaaa'),
+        resolveCommit: vi.fn((ref: string) =>
+          ref === 'main' ? 'aaaaaaa' : 'bbbbbbb'
+        ),
+      } as unknown as GitClient);
+    const releases = [
+      {
+        name: 'repo',
+        previousVersion: '1.0.0',
+        version: '1.1.0',
+        tagName: 'v1.1.0',
+        releaseNotes: '',
+        bump: { type: 'minor' as const, commits: [], changeFiles: [] },
+      },
+    ];
+
+    it('should refuse a release commit for another commit than HEAD', async () => {
+      const service = createPlanService();
+      const changes = new FileChangeSet();
+      await changes.write('CHANGELOG.test.md', '# Changelog\n');
+
+      await expect(
+        service.createReleasePlan({
+          releases,
+          changes,
+          draft: false,
+          to: 'bbbbbbb',
+        })
+      ).rejects.toThrow("Can't make the release commit of bbbbbbb");
+
+      const plan = await service.createReleasePlan({
+        releases,
+        changes,
+        draft: false,
+        to: 'main',
+      });
+
+      expect(plan.commitMessage).toBe('chore(release): v1.1.0');
+      expect(plan.tagTarget).toBeNull();
+    });
+
+    it('should tag the to commit when there is nothing to commit', async () => {
+      const service = createPlanService();
+
+      const plan = await service.createReleasePlan({
+        releases,
+        changes: new FileChangeSet(),
+        draft: false,
+        to: 'bbbbbbb',
+      });
+
+      expect(plan.commitMessage).toBeNull();
+      expect(plan.tagTarget).toBe('bbbbbbb');
+    });
+  });
+
+  describe('versionStrategyIndependentRelease', () => {
+    let dir: string;
+    const workspacePackages = [
+      createPackage('cli', { version: '2.0.0' }),
+      createPackage('core'),
+      createPackage('docs'),
+    ];
+
+    beforeEach(async () => {
+      dir = await fs.promises.mkdtemp(
+        path.join(os.tmpdir(), 'orbit-it-independent-')
+      );
+      vi.spyOn(process, 'cwd').mockReturnValue(dir);
+
+      await Promise.all(
+        workspacePackages.map(
+          async ({ name, version, directory, packagePath }) => {
+            await fs.promises.mkdir(path.join(dir, directory), {
+              recursive: true,
+            });
+            await fs.promises.writeFile(
+              path.join(dir, packagePath),
+              `${JSON.stringify({ name, version }, null, 2)}\n`
+            );
+          }
+        )
+      );
+    });
+
+    afterEach(async () => {
+      vi.restoreAllMocks();
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should release each changed package with its own bump and tag', async () => {
+      const commitsByDirectory: Record<string, Commit[]> = {
+        'packages/cli': [
+          createCommit('fix: handle empty tags', { hash: 'bbbbbbb' }),
+        ],
+        'packages/core': [
+          createCommit('feat: add a flag', { hash: 'aaaaaaa' }),
+        ],
+        'packages/docs': [],
+      };
+      const gitClient = {
+        getReachableTags: vi.fn(() => [
+          'cli@2.0.0',
+          'core@1.0.0',
+          'docs@1.0.0',
+        ]),
+        getCommits: vi.fn(
+          ({ paths }: { paths: string[] }) => commitsByDirectory[paths[0]]
+        ),
+        getCurrentBranch: vi.fn(() => 'main'),
+      } as unknown as GitClient;
+      const service = createService(
+        {
+          versioningStrategy: 'independent',
+          changeSource: 'commits',
+          changelog: false,
+          manifest: false,
+        },
+        gitClient
+      );
+      service.getWorkspacePackages = vi.fn(async () => workspacePackages);
+      service.githubClient = {
+        getAuthorLogin: vi.fn(async () => null),
+      } as unknown as GitHubClient;
+
+      const { error, data } = await service.versionStrategyIndependentRelease({
+        release: {},
+        dryRun: true,
+      });
+
+      expect(error).toBeUndefined();
+      expect(
+        data.releases.map(({ name, previousTag, version, bump }) => ({
+          name,
+          previousTag,
+          version,
+          type: bump.type,
+        }))
+      ).toEqual([
+        {
+          name: 'cli',
+          previousTag: 'cli@2.0.0',
+          version: '2.0.1',
+          type: 'patch',
+        },
+        {
+          name: 'core',
+          previousTag: 'core@1.0.0',
+          version: '1.1.0',
+          type: 'minor',
+        },
+      ]);
+      expect(data.plan.tags).toEqual(['cli@2.0.1', 'core@1.1.0']);
+      expect(data.plan.commitMessage).toBe(
+        'chore(release): cli@2.0.1, core@1.1.0'
+      );
+      expect(
+        data.plan.files.map(({ path: filePath, after }) => [
+          filePath,
+          JSON.parse(after).version,
+        ])
+      ).toEqual([
+        ['packages/cli/package.json', '2.0.1'],
+        ['packages/core/package.json', '1.1.0'],
+      ]);
+    });
+  });
+
+  describe('generateReleaseNotes', () => {
+    const notes = {
+      name: 'repo',
+      version: '1.1.0',
+      tagName: 'v1.1.0',
+      previousTag: 'v1.0.0',
+      commits: [createCommit('feat: add a flag', { hash: 'aaaaaaa' })],
+      to: 'bbbbbbb',
+    };
+
+    const createNotesService = (
+      generateReleaseNotes: GitHubClient['generateReleaseNotes']
+    ) => {
+      const service = createService({
+        notes: { provider: 'github', githubConfigFile: '.github/notes.yml' },
+      });
+      service.repoInfo = { owner: 'owner', repo: 'repo' };
+      service.githubClient = {
+        generateReleaseNotes: vi.fn(generateReleaseNotes),
+        getAuthorLogin: vi.fn(async () => null),
+      } as unknown as GitHubClient;
+
+      return service;
+    };
+
+    it('should use the notes generated by GitHub for the release range', async () => {
+      const service = createNotesService(
+        async () => "## What's Changed\n* Add a flag by @ada in #12"
+      );
+
+      expect(await service.generateReleaseNotes(notes)).toBe(
+        "## What's Changed\n* Add a flag by @ada in #12"
+      );
+      expect(service.githubClient.generateReleaseNotes).toHaveBeenCalledWith({
+        owner: 'owner',
+        repo: 'repo',
+        tagName: 'v1.1.0',
+        targetCommitish: 'bbbbbbb',
+        previousTagName: 'v1.0.0',
+        configurationFilePath: '.github/notes.yml',
+      });
+    });
+
+    it('should keep the notes from the commits when GitHub fails', async () => {
+      const service = createNotesService(() =>
+        Promise.reject(new Error('Resource not accessible by integration'))
+      );
+
+      const releaseNotes = await service.generateReleaseNotes(notes);
+
+      expect(service.githubClient.generateReleaseNotes).toHaveBeenCalled();
+      expect(releaseNotes).toContain('add a flag');
+    });
+  });
+
+  describe('release pull requests', () => {
+    let dir: string;
+    let changelogPath: string;
+
+    beforeEach(async () => {
+      dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'orbit-it-pr-'));
+      changelogPath = path.join(dir, 'CHANGELOG.md');
+    });
+
+    afterEach(async () => {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    });
+
+    const releases = [
+      {
+        name: 'repo',
+        previousTag: 'v1.0.0',
+        previousVersion: '1.0.0',
+        version: '1.1.0',
+        tagName: 'v1.1.0',
+        releaseNotes: '### Features\n\n- add a flag',
+        bump: {
+          type: 'minor' as const,
+          commits: [createCommit('feat: add a flag')],
+          changeFiles: [],
+        },
+      },
+    ];
+
+    const createPullRequestService = (
+      openPullRequest: { number: number } | null
+    ) => {
+      const calls: string[] = [];
+      const gitClient = {
+        getCurrentBranch: vi.fn(() => 'main'),
+        getHeadCommit: vi.fn(() => 'abc1234'),
+        checkoutBranch: vi.fn((branchName: string, reset?: boolean) => {
+          calls.push(`checkout ${branchName}${reset ? ' (reset)' : ''}`);
+        }),
+        commitFiles: vi.fn(({ message }: { message: string }) => {
+          calls.push(`commit ${message}`);
+        }),
+        pushBranch: vi.fn((branchName: string, force?: boolean) => {
+          calls.push(`push ${branchName}${force ? ' (force)' : ''}`);
+        }),
+      } as unknown as GitClient;
+      const githubClient = {
+        findPullRequest: vi.fn(async () => openPullRequest),
+        createPullRequest: vi.fn(async () => ({ number: 8 })),
+        updatePullRequest: vi.fn(async () => openPullRequest),
+      } as unknown as GitHubClient;
+      const service = createService({ mode: 'pr' }, gitClient);
+      service.repoInfo = { owner: 'owner', repo: 'repo' };
+      service.githubClient = githubClient;
+      service.transaction = new ReleaseTransaction(gitClient, githubClient, {
+        owner: 'owner',
+        repo: 'repo',
+      });
+
+      return { service, githubClient, calls };
+    };
+
+    const createPullRequestPlan = async (
+      service: ReleaseServiceSteps
+    ): Promise<ReleasePlan> => {
+      const changes = new FileChangeSet();
+      await changes.write(changelogPath, '# Changelog\n');
+
+      return await service.createReleasePlan({
+        releases,
+        changes,
+        draft: false,
+      });
+    };
+
+    it('should commit the release to the release branch and open a pull request', async () => {
+      const { service, githubClient, calls } = createPullRequestService(null);
+      const plan = await createPullRequestPlan(service);
+
+      expect(plan.tags).toEqual([]);
+      expect(plan.githubReleases).toEqual([]);
+      expect(plan.pullRequest).toMatchObject({
+        branch: 'orbit-it/release',
+        base: 'main',
+        title: 'chore: release v1.1.0',
+      });
+      expect(plan.pullRequest.body).toContain('### Features\n\n- add a flag');
+      expect(readPullRequestMetadata(plan.pullRequest.body)).toEqual([
+        {
+          ...releases[0],
+          bump: { type: 'minor', commits: [], changeFiles: [] },
+        },
+      ]);
+
+      await service.executeReleasePlan(plan);
+
+      expect(calls).toEqual([
+        'checkout orbit-it/release (reset)',
+        'commit chore(release): v1.1.0',
+        'push orbit-it/release (force)',
+        'checkout main',
+      ]);
+      expect(await fs.promises.readFile(changelogPath, 'utf8')).toBe(
+        '# Changelog\n'
+      );
+      expect(githubClient.createPullRequest).toHaveBeenCalledWith({
+        owner: 'owner',
+        repo: 'repo',
+        head: 'orbit-it/release',
+        base: 'main',
+        title: 'chore: release v1.1.0',
+        body: plan.pullRequest.body,
+      });
+      expect(githubClient.updatePullRequest).not.toHaveBeenCalled();
+    });
+
+    it('should update the release pull request already open', async () => {
+      const { service, githubClient } = createPullRequestService({
+        number: 7,
+      });
+      const plan = await createPullRequestPlan(service);
+
+      await service.executeReleasePlan(plan);
+
+      expect(githubClient.findPullRequest).toHaveBeenCalledWith({
+        owner: 'owner',
+        repo: 'repo',
+        head: 'orbit-it/release',
+        state: 'open',
+      });
+      expect(githubClient.updatePullRequest).toHaveBeenCalledWith({
+        owner: 'owner',
+        repo: 'repo',
+        pullNumber: 7,
+        title: 'chore: release v1.1.0',
+        body: plan.pullRequest.body,
+      });
+      expect(githubClient.createPullRequest).not.toHaveBeenCalled();
+    });
+
+    it('should tag the merge commit of a merged release pull request', async () => {
+      const service = createService({ mode: 'pr' }, {
+        getCurrentBranch: vi.fn(() => 'main'),
+        getTags: vi.fn(async () => ({ all: ['v1.0.0'] })),
+      } as unknown as GitClient);
+      service.githubClient = {
+        findPullRequest: vi.fn(async () => ({
+          number: 7,
+          merge_commit_sha: 'ccccccc',
+          body: appendPullRequestMetadata(
+            'Merging this pull request',
+            releases
+          ),
+        })),
+      } as unknown as GitHubClient;
+
+      const { plan } = await service.publishReleasePullRequest({
+        release: {},
+        dryRun: true,
+      });
+
+      expect(plan.tags).toEqual(['v1.1.0']);
+      expect(plan.tagTarget).toBe('ccccccc');
+      expect(plan.commitMessage).toBeNull();
+      expect(plan.githubReleases.map(({ tagName }) => tagName)).toEqual([
+        'v1.1.0',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, expect, it, vi } from 'vitest';
+import type GitClient from '../src/lib/git-client';
+import type GitHubClient from '../src/lib/github-client';
+import ReleaseTransaction from '../src/lib/release-transaction';
+
+describe('ReleaseTransaction', () => {
+  const createTransaction = () => {
+    const calls: string[] = [];
+    const gitClient = {
+      resetToCommit: vi.fn(() => {
+        calls.push('reset');
+      }),
+      deleteTag: vi.fn((tagName: string) => {
+        calls.push(`delete tag ${tagName}`);
+      }),
+      deleteRemoteTags: vi.fn(() => {
+        calls.push('delete remote tags');
+      }),
+    } as unknown as GitClient;
+    const githubClient = {
+      deleteRelease: vi.fn(() => {
+        calls.push('delete release');
+      }),
+    } as unknown as GitHubClient;
+
+    const transaction = new ReleaseTransaction(gitClient, githubClient, {
+      owner: 'owner',
+      repo: 'repo',
+    });
+
+    return { transaction, calls, githubClient };
+  };
+
+  it('should undo the side effects in reverse order', async () => {
+    const { transaction, calls, githubClient } = createTransaction();
+
+    transaction.record({ type: 'commit', previousCommit: 'abc1234' });
+    transaction.record({ type: 'tag', tagName: 'v1.0.0' });
+    transaction.record({ type: 'push-tags', tagNames: ['v1.0.0'] });
+    transaction.record({ type: 'release', releaseId: 42, tagName: 'v1.0.0' });
+
+    const result = await transaction.rollback();
+
+    expect(calls).toEqual([
+      'delete release',
+      'delete remote tags',
+      'delete tag v1.0.0',
+      'reset',
+    ]);
+    expect(githubClient.deleteRelease).toHaveBeenCalledWith(
+      'owner',
+      'repo',
+      42
+    );
+    expect(result.rolledBack).toHaveLength(4);
+    expect(result.failed).toHaveLength(0);
+    expect(transaction.hasSteps()).toBe(false);
+  });
+
+  it('should restore written files and remove created ones', async () => {
+    const { transaction } = createTransaction();
+    const dir = await fs.promises.mkdtemp(
+      path.join(os.tmpdir(), 'orbit-it-transaction-')
+    );
+    const existingFile = path.join(dir, 'package.json');
+    const createdFile = path.join(dir, 'CHANGELOG.md');
+
+    await fs.promises.writeFile(existingFile, '{"version":"1.0.0"}');
+
+    await transaction.recordFile(existingFile);
+    await transaction.recordFile(createdFile);
+
+    await fs.promises.writeFile(existingFile, '{"version":"1.1.0"}');
+    await fs.promises.writeFile(createdFile, '# Changelog');
+
+    // Only the content before the first write is kept
+    await transaction.recordFile(existingFile);
+
+    await transaction.rollback();
+
+    expect(await fs.promises.readFile(existingFile, 'utf8')).toBe(
+      '{"version":"1.0.0"}'
+    );
+    expect(fs.existsSync(createdFile)).toBe(false);
+
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should report the steps that could not be undone', async () => {
+    const { transaction } = createTransaction();
+
+    transaction.record({ type: 'tag', tagName: 'v1.0.0' });
+    transaction.record({ type: 'push-branch', branchName: 'main' });
+
+    const result = await transaction.rollback();
+
+    expect(result.rolledBack).toEqual(['Deleted local tag v1.0.0']);
+    expect(result.failed).toEqual([
+      'Pushed branch main (revert the release commit manually)',
+    ]);
+  });
+});
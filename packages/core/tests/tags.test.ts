@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { findLatestTag, formatTag, parseTag } from '../src/utils/tags';
+
+describe('tags', () => {
+  it('should render the placeholders of a tag format', () => {
+    expect(
+      formatTag('{name}/v{version}', { name: 'pkg', version: '2.1.0' })
+    ).toBe('pkg/v2.1.0');
+    expect(
+      formatTag('release-v{major}-{version}', { name: 'pkg', version: '2.1.0' })
+    ).toBe('release-v2-2.1.0');
+  });
+
+  it('should parse tags created with the same format', () => {
+    expect(parseTag('v{version}', 'v1.2.3', 'repo')).toBe('1.2.3');
+    expect(parseTag('{version}', '1.2.3-beta.1', 'repo')).toBe('1.2.3-beta.1');
+    expect(parseTag('release-{version}', 'release-1.2.3', 'repo')).toBe(
+      '1.2.3'
+    );
+    expect(parseTag('{name}@{version}', '@scope/pkg@1.0.0', '@scope/pkg')).toBe(
+      '1.0.0'
+    );
+  });
+
+  it('should ignore tags of other packages or formats', () => {
+    expect(parseTag('{name}/v{version}', 'other/v1.2.3', 'pkg')).toBeNull();
+    expect(parseTag('v{version}', 'pkg@1.2.3', 'pkg')).toBeNull();
+    expect(parseTag('v{major}/{version}', 'v2/1.2.3', 'pkg')).toBeNull();
+  });
+
+  it('should find the latest tag of a package', () => {
+    const tags = ['other@3.0.0', 'pkg@1.0.0', 'pkg@1.0.1', 'pkg@1.1.0-beta.0'];
+
+    expect(findLatestTag('{name}@{version}', tags, 'pkg')).toBe(
+      'pkg@1.1.0-beta.0'
+    );
+    expect(findLatestTag('{name}@{version}', tags, 'pkg', true)).toBe(
+      'pkg@1.0.1'
+    );
+    expect(findLatestTag('{name}@{version}', tags, 'new')).toBeUndefined();
+  });
+
+  it('should parse calendar versions with a CalVer format', () => {
+    expect(parseTag('v{version}', 'v26.05.1', 'repo', 'YY.0M.MICRO')).toBe(
+      '26.05.1'
+    );
+    expect(parseTag('v{version}', 'v26.05.1', 'repo')).toBeNull();
+    expect(parseTag('v{version}', 'v26.1', 'repo', 'YY.0M.MICRO')).toBeNull();
+    expect(
+      findLatestTag(
+        'v{version}',
+        ['v26.05.0', 'v26.10.0'],
+        'repo',
+        false,
+        'YY.0M.MICRO'
+      )
+    ).toBe('v26.10.0');
+  });
+});
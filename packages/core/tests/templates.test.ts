@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import {
+  releaseNotesTemplateShape,
+  renderTemplate,
+  validateTemplate,
+} from '../src/utils/templates';
+
+describe('templates', () => {
+  it('should render values, loops and conditionals', () => {
+    const template = [
+      '# {{tag}}',
+      '{{#if previousTag}}',
+      'Since {{previousTag}}',
+      '{{else}}',
+      'First release',
+      '{{/if}}',
+      '{{#each sections}}',
+      '## {{type}}',
+      '{{#each commits}}',
+      '- {{description}} ({{shortHash}}) in {{tag}}',
+      '{{/each}}',
+      '{{/each}}',
+      'Thanks {{#each contributors}}{{name}} {{/each}}',
+      '',
+    ].join('\n');
+
+    expect(
+      renderTemplate(template, {
+        tag: 'v1.1.0',
+        previousTag: null,
+        sections: [
+          {
+            type: 'feat',
+            commits: [
+              { description: 'add a flag', shortHash: 'abc1234' },
+              { description: 'add a command', shortHash: 'def5678' },
+            ],
+          },
+        ],
+        contributors: [{ name: '@octocat' }, { name: 'Jane' }],
+      })
+    ).toBe(
+      [
+        '# v1.1.0',
+        'First release',
+        '## feat',
+        '- add a flag (abc1234) in v1.1.0',
+        '- add a command (def5678) in v1.1.0',
+        'Thanks @octocat Jane ',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should treat empty lists as unset in conditionals', () => {
+    expect(
+      renderTemplate(
+        '{{#if items}}{{#each items}}{{this}},{{/each}}{{else}}none{{/if}}',
+        {
+          items: [],
+        }
+      )
+    ).toBe('none');
+    expect(
+      renderTemplate('{{#if items}}{{#each items}}{{this}},{{/each}}{{/if}}', {
+        items: ['a', 'b'],
+      })
+    ).toBe('a,b,');
+  });
+
+  it('should validate the syntax of templates', () => {
+    expect(
+      validateTemplate('{{#each sections}}', releaseNotesTemplateShape)
+    ).toEqual(['Line 1: {{#each sections}} is never closed']);
+    expect(
+      validateTemplate('{{#if tag}}\n{{/each}}', releaseNotesTemplateShape)
+    ).toEqual(['Line 2: unexpected {{/each}}']);
+    expect(validateTemplate('{{else}}', releaseNotesTemplateShape)).toEqual([
+      'Line 1: {{else}} outside of an {{#if}} block',
+    ]);
+  });
+
+  it('should validate the fields used by release notes templates', () => {
+    expect(
+      validateTemplate(
+        '{{#each sections}}{{label}}{{#each commits}}{{entry}}{{version}}{{/each}}{{/each}}',
+        releaseNotesTemplateShape
+      )
+    ).toEqual([]);
+    expect(
+      validateTemplate(
+        '{{versions}}\n{{sections}}\n{{#each tag}}{{/each}}',
+        releaseNotesTemplateShape
+      )
+    ).toEqual([
+      'Line 1: unknown field "versions"',
+      `Line 2: "sections" can't be printed, loop over it`,
+      'Line 3: "tag" is not a list',
+    ]);
+  });
+});
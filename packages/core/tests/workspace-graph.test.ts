@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import WorkspaceGraph from '../src/lib/workspace-graph';
+import { rewriteDependencyRange } from '../src/utils/versions';
+
+describe('WorkspaceGraph', () => {
+  const graph = new WorkspaceGraph([
+    { name: '@acme/app', dependencies: ['@acme/ui', 'react'] },
+    { name: '@acme/ui', dependencies: ['@acme/core'] },
+    { name: '@acme/core', dependencies: [] },
+    { name: '@acme/docs', dependencies: [] },
+  ]);
+
+  it('should ignore dependencies outside the workspace', () => {
+    expect(graph.getDependencies('@acme/app')).toEqual(['@acme/ui']);
+  });
+
+  it('should find transitive dependents', () => {
+    expect(graph.getTransitiveDependents(['@acme/core'])).toEqual([
+      '@acme/ui',
+      '@acme/app',
+    ]);
+  });
+
+  it('should sort dependencies before dependents', () => {
+    expect(graph.sort(['@acme/app', '@acme/ui', '@acme/core'])).toEqual([
+      '@acme/core',
+      '@acme/ui',
+      '@acme/app',
+    ]);
+  });
+
+  it('should keep cyclic packages instead of dropping them', () => {
+    const cyclicGraph = new WorkspaceGraph([
+      { name: 'a', dependencies: ['b'] },
+      { name: 'b', dependencies: ['a'] },
+    ]);
+
+    expect(cyclicGraph.sort(['a', 'b'])).toEqual(['a', 'b']);
+  });
+});
+
+describe('rewriteDependencyRange', () => {
+  it('should keep the range operator', () => {
+    expect(rewriteDependencyRange('^1.2.0', '1.3.0')).toBe('^1.3.0');
+    expect(rewriteDependencyRange('~1.2.0', '1.2.1')).toBe('~1.2.1');
+    expect(rewriteDependencyRange('1.2.0', '2.0.0')).toBe('2.0.0');
+  });
+
+  it('should keep workspace ranges resolved on publish', () => {
+    expect(rewriteDependencyRange('workspace:*', '1.3.0')).toBe('workspace:*');
+    expect(rewriteDependencyRange('workspace:^', '1.3.0')).toBe('workspace:^');
+  });
+
+  it('should rewrite explicit workspace ranges', () => {
+    expect(rewriteDependencyRange('workspace:^1.2.0', '1.3.0')).toBe(
+      'workspace:^1.3.0'
+    );
+  });
+
+  it('should leave complex ranges untouched', () => {
+    expect(rewriteDependencyRange('>=1.0.0 <2.0.0', '1.3.0')).toBe(
+      '>=1.0.0 <2.0.0'
+    );
+  });
+});
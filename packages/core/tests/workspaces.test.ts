@@ -0,0 +1,60 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { WorkspacePackage } from '../src/types/workspace-graph';
+import { findPackageGroups } from '../src/utils/workspaces';
+
+const createPackage = (name: string): WorkspacePackage => ({
+  name,
+  version: '1.0.0',
+  directory: `packages/${name}`,
+  packagePath: `packages/${name}/package.json`,
+  dependencies: [],
+});
+
+describe('findPackageGroups', () => {
+  const workspacePackages = ['core', 'ui-1', 'ui-2'].map(createPackage);
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'orbit-it-groups-'));
+    await Promise.all(
+      workspacePackages.map(({ directory }) =>
+        fs.promises.mkdir(path.join(dir, directory), { recursive: true })
+      )
+    );
+    vi.spyOn(process, 'cwd').mockReturnValue(dir);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should map the members of each group to the group', async () => {
+    const packageGroups = await findPackageGroups(
+      [{ name: 'ui', workspaces: ['packages/ui-*'] }],
+      workspacePackages
+    );
+
+    expect(packageGroups).toEqual(
+      new Map([
+        ['ui-1', 'ui'],
+        ['ui-2', 'ui'],
+      ])
+    );
+  });
+
+  it('should reject a package found in several groups', async () => {
+    await expect(
+      findPackageGroups(
+        [
+          { name: 'ui', workspaces: ['packages/ui-*'] },
+          { name: 'design', workspaces: ['packages/ui-2'] },
+        ],
+        workspacePackages
+      )
+    ).rejects.toThrow('Package ui-2 is in several groups');
+  });
+});
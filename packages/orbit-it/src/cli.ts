@@ -1,4 +1,6 @@
+import changeCommand from '@commands/change-command';
 import initCommand from '@commands/init-command';
+import manifestCommand from '@commands/manifest-command';
 import releaseCommand from '@commands/release-command';
 import { banner, descriptionMessage } from '@utils/banners';
 import { Command } from 'commander';
@@ -16,6 +18,8 @@ program
 // Register commands
 initCommand(program);
 releaseCommand(program);
+changeCommand(program);
+manifestCommand(program);
 
 // Handle unknown commands
 program.parse(process.argv);
@@ -0,0 +1,135 @@
+import {
+  group,
+  intro,
+  isCancel,
+  multiselect,
+  outro,
+  select,
+  text,
+  updateSettings,
+} from '@clack/prompts';
+import { type ChangeBump, OrbitIt } from '@orbit-it/core';
+import { banner } from '@utils/banners';
+import { onCommandFlowCancel } from '@utils/events';
+import type { Command } from 'commander';
+import colors from 'picocolors';
+
+function changeCommand(program: Command): Command {
+  return program
+    .command('change')
+    .description('record a change to release under .orbit-it/changes')
+    .action(async () => {
+      updateSettings({
+        aliases: {
+          w: 'up',
+          s: 'down',
+          a: 'left',
+          d: 'right',
+          esc: 'cancel',
+        },
+      });
+
+      intro(colors.white(banner));
+
+      const orbitIt = new OrbitIt();
+
+      const foundConfig = await orbitIt.config.get();
+
+      if (foundConfig.error || !foundConfig.data) {
+        onCommandFlowCancel(foundConfig.error.message);
+      }
+
+      const changeService = await orbitIt.createChangeService();
+
+      const foundPackages = await changeService.getPackageNames();
+
+      if (foundPackages.error || !foundPackages.data) {
+        onCommandFlowCancel(foundPackages.error.message);
+      }
+
+      const userChange = await group(
+        {
+          packages: async () => {
+            // Without workspaces, the change applies to the project itself
+            if (foundPackages.data.length === 1) {
+              return foundPackages.data;
+            }
+
+            const packages = await multiselect({
+              message: 'Select the changed packages',
+              options: foundPackages.data.map((name) => ({
+                label: name,
+                value: name,
+              })),
+              required: true,
+            });
+
+            if (isCancel(packages)) {
+              onCommandFlowCancel();
+            }
+
+            return packages;
+          },
+          bump: async () => {
+            const bump = await select<ChangeBump>({
+              message: 'Select the bump',
+              options: [
+                {
+                  label: 'Patch',
+                  value: 'patch',
+                },
+                {
+                  label: 'Minor',
+                  value: 'minor',
+                },
+                {
+                  label: 'Major',
+                  value: 'major',
+                },
+              ],
+            });
+
+            if (isCancel(bump)) {
+              onCommandFlowCancel();
+            }
+
+            return bump;
+          },
+          summary: async () => {
+            const summary = await text({
+              message: 'Describe the change for the release notes',
+              placeholder: 'Add a `--to` option to the release command',
+              validate: (value) =>
+                value?.trim() ? undefined : 'The summary is required.',
+            });
+
+            if (isCancel(summary)) {
+              onCommandFlowCancel();
+            }
+
+            return summary;
+          },
+        },
+        {
+          onCancel: () => {
+            onCommandFlowCancel('Change cancelled by user.');
+          },
+        }
+      );
+
+      const createdChange = await changeService.create({
+        bumps: Object.fromEntries(
+          userChange.packages.map((name) => [name, userChange.bump])
+        ),
+        summary: userChange.summary,
+      });
+
+      if (createdChange.error || !createdChange.data) {
+        onCommandFlowCancel(createdChange.error.message);
+      }
+
+      outro(`Change written to ${colors.cyan(createdChange.data)}`);
+    });
+}
+
+export default changeCommand;
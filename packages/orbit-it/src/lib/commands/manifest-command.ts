@@ -0,0 +1,62 @@
+import { intro, log, note, outro } from '@clack/prompts';
+import { OrbitIt } from '@orbit-it/core';
+import { manifestFilePath } from '@orbit-it/core/utils';
+import { banner, dryRunEnabledMessage, successMessage } from '@utils/banners';
+import { onCommandFlowCancel } from '@utils/events';
+import type { Command } from 'commander';
+import colors from 'picocolors';
+
+export type ManifestBootstrapCommandOptions = {
+  dryRun?: boolean;
+};
+
+function manifestCommand(program: Command): Command {
+  const manifest = program
+    .command('manifest')
+    .description('manage the versions manifest');
+
+  manifest
+    .command('bootstrap')
+    .description(`rebuild ${manifestFilePath} from the existing tags`)
+    .option('--dry-run', 'preview the manifest without writing it', false)
+    .action(async (options: ManifestBootstrapCommandOptions) => {
+      const { dryRun } = options;
+
+      intro(colors.white(banner));
+
+      if (dryRun) {
+        log.info(dryRunEnabledMessage);
+      }
+
+      const orbitIt = new OrbitIt();
+
+      const foundConfig = await orbitIt.config.get();
+
+      if (foundConfig.error || !foundConfig.data) {
+        onCommandFlowCancel(foundConfig.error.message);
+      }
+
+      const manifestService = await orbitIt.createManifestService();
+      const bootstrapResult = await manifestService.bootstrap({ dryRun });
+
+      if (bootstrapResult.error || !bootstrapResult.data) {
+        onCommandFlowCancel(bootstrapResult.error.message);
+      }
+
+      note(
+        Object.entries(bootstrapResult.data.packages)
+          .map(
+            ([name, { version, tag }]) =>
+              `- ${name}: ${version} ${colors.gray(tag ? `(${tag})` : '(never released)')}`
+          )
+          .join('\n'),
+        colors.bgGreen(colors.white(colors.bold(manifestFilePath)))
+      );
+
+      outro(successMessage);
+    });
+
+  return manifest;
+}
+
+export default manifestCommand;
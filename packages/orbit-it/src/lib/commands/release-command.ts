@@ -8,29 +8,161 @@ import {
   select,
   updateSettings,
 } from '@clack/prompts';
-import { OrbitIt, OrbitItError, type ReleaseType } from '@orbit-it/core';
+import {
+  OrbitIt,
+  OrbitItError,
+  type ReleasePlan,
+  type ReleaseResult,
+  type ReleaseType,
+} from '@orbit-it/core';
+import { writeJsonFile } from '@orbit-it/core/utils';
 import { banner, ciModeMessage, dryRunEnabledMessage } from '@utils/banners';
-import { onCommandFlowCancel } from '@utils/events';
+import { formatDiff } from '@utils/diff';
+import { onCommandFlowCancel, onProcessCancel } from '@utils/events';
 import type { Command } from 'commander';
 
 export type ReleaseCommandOptions = {
   dryRun?: boolean;
   ci?: boolean;
 
-  type?: ReleaseType;
+  type?: ReleaseType | 'auto';
+  preid?: string;
   draft?: boolean;
+  planOut?: string;
+  from?: string;
+  to?: string;
 };
 
+function getGitSteps(plan: ReleasePlan): string[] {
+  if (plan.pullRequest) {
+    return [
+      `reset branch ${plan.pullRequest.branch} from ${plan.branch}`,
+      `commit "${plan.commitMessage}"`,
+      `force push branch ${plan.pullRequest.branch}`,
+    ];
+  }
+
+  return [
+    ...(plan.commitMessage ? [`commit "${plan.commitMessage}"`] : []),
+    ...plan.tags.map((tagName) =>
+      plan.tagTarget ? `tag ${tagName} at ${plan.tagTarget}` : `tag ${tagName}`
+    ),
+    `push tags ${plan.tags.join(', ')}`,
+    ...(plan.commitMessage ? [`push branch ${plan.branch}`] : []),
+  ];
+}
+
+function getGitHubSteps(plan: ReleasePlan): string[] {
+  if (plan.pullRequest) {
+    return [
+      `open or update pull request "${plan.pullRequest.title}" into ${plan.pullRequest.base}`,
+    ];
+  }
+
+  return plan.githubReleases.map(({ releaseName, draft, prerelease }) => {
+    const flags = [draft && 'draft', prerelease && 'prerelease'].filter(
+      Boolean
+    );
+
+    return `create release ${releaseName}${flags.length > 0 ? ` (${flags.join(', ')})` : ''}`;
+  });
+}
+
+function printPlan(plan: ReleasePlan, dryRun: boolean): void {
+  log.step(dryRun ? 'Release plan' : 'Release applied');
+
+  for (const file of plan.files) {
+    let action = 'edit';
+
+    if (file.before === null) {
+      action = 'create';
+    } else if (file.after === null) {
+      action = 'delete';
+    }
+
+    note(formatDiff(file.before, file.after), `${action} ${file.path}`);
+  }
+
+  note(
+    getGitSteps(plan)
+      .map((step) => `- ${step}`)
+      .join('\n'),
+    'Git'
+  );
+  note(
+    getGitHubSteps(plan)
+      .map((step) => `- ${step}`)
+      .join('\n'),
+    'GitHub'
+  );
+}
+
+function printRelease({ releases, plan, dryRun }: ReleaseResult): void {
+  if (releases.length === 0) {
+    log.info(
+      'Nothing to release. No breaking, feat, fix or perf commits or change files found.'
+    );
+    return;
+  }
+
+  for (const {
+    name,
+    previousVersion,
+    version,
+    tagName,
+    releaseNotes,
+    bump,
+  } of releases) {
+    log.step(`${name}: ${previousVersion} → ${version}`);
+
+    if (bump.commits.length > 0) {
+      note(
+        bump.commits.map((commit) => `- ${commit.message}`).join('\n'),
+        `Bump: ${bump.type}`
+      );
+    }
+
+    if (bump.changeFiles.length > 0) {
+      note(
+        bump.changeFiles
+          .map(({ path, summary }) => `- ${summary.split('\n')[0]} (${path})`)
+          .join('\n'),
+        'Change Files'
+      );
+    }
+
+    note(releaseNotes, 'Release Notes');
+    note(`Tag: ${tagName}`, 'Tag Name');
+    note(`Version: ${version}`, 'Version');
+  }
+
+  if (plan) {
+    printPlan(plan, dryRun);
+  }
+}
+
+async function writePlan(
+  planOut: string,
+  plan: ReleasePlan | null
+): Promise<void> {
+  // There is no plan when nothing is released, so no file is written
+  if (!plan) {
+    log.info(`Nothing to release, ${planOut} was not written`);
+    return;
+  }
+
+  await writeJsonFile(planOut, plan);
+  log.info(`Release plan written to ${planOut}`);
+}
+
 function releaseCommand(program: Command): Command {
   const orbitIt = new OrbitIt();
 
-  async function releaseHandler(options: ReleaseCommandOptions): Promise<{
-    readonly releaseNotes: string;
-    readonly tagName: string;
-    readonly version: string;
-  }> {
+  async function releaseHandler(
+    options: ReleaseCommandOptions
+  ): Promise<ReleaseResult> {
     try {
-      const { draft, dryRun, type } = options;
+      const { draft, dryRun, type, preid, planOut, from, to } = options;
 
       const foundEnv = await orbitIt.env.loadEnvironmentVariables();
 
@@ -44,24 +176,30 @@ function releaseCommand(program: Command): Command {
 
       const releaseResult = await releaseService.execute({
         release: {
-          type,
+          // `auto` lets the release service infer the type from commits
+          type: type === 'auto' ? undefined : type,
+          preid,
           draft,
+          from,
+          to,
         },
         dryRun,
       });
 
+      // The content lists what was rolled back, and what must be cleaned up by hand
       if (releaseResult.error || !releaseResult.data) {
-        onCommandFlowCancel(releaseResult.error.message);
+        onProcessCancel(releaseResult.error);
       }
 
-      return {
-        releaseNotes: releaseResult.data.releaseNotes,
-        tagName: releaseResult.data.tagName,
-        version: releaseResult.data.version,
-      };
+      // The plan is written for review, e.g. as a CI artifact
+      if (planOut) {
+        await writePlan(planOut, releaseResult.data.plan);
+      }
+
+      return releaseResult.data;
     } catch (error) {
       if (error instanceof OrbitItError) {
-        onCommandFlowCancel(error.message);
+        onProcessCancel(error);
       }
     }
   }
@@ -73,11 +211,24 @@ function releaseCommand(program: Command): Command {
     .option('--ci', 'run in CI mode, skipping interactive prompts', false)
     .option(
       '--type <type>',
-      'specify the release type (major, minor, patch, prerelease)'
+      'specify the release type (major, minor, patch, premajor, preminor, prepatch, prerelease, graduate, auto)'
+    )
+    .option(
+      '--preid <identifier>',
+      'override the prerelease identifier (e.g. alpha, beta, rc)'
     )
     .option('--draft', 'create a draft release', false)
+    .option(
+      '--plan-out <file>',
+      'write the release plan to a JSON file, skipped when nothing is released'
+    )
+    .option(
+      '--from <ref>',
+      'start the commit range after this ref instead of the previous release'
+    )
+    .option('--to <ref>', 'end the commit range at this ref instead of HEAD')
     .action(async (options: ReleaseCommandOptions) => {
-      const { dryRun, ci, type } = options;
+      const { dryRun, ci } = options;
 
       intro(banner);
 
@@ -91,19 +242,13 @@ function releaseCommand(program: Command): Command {
         log.info(dryRunEnabledMessage);
       }
 
-      if (ci) {
-        if (!type) {
-          onCommandFlowCancel('Missing release type');
-        }
+      const isAutoStrategy = foundConfig.data.release.strategy === 'auto';
 
+      if (ci) {
+        // Without a type, the core infers the bump from the change files or fails
         log.info(ciModeMessage);
 
-        const { releaseNotes, tagName, version } =
-          await releaseHandler(options);
-
-        note(releaseNotes, 'Release Notes');
-        note(`Tag: ${tagName}`, 'Tag Name');
-        note(`Version: ${version}`, 'Version');
+        printRelease(await releaseHandler(options));
       } else {
         updateSettings({
           aliases: {
@@ -127,6 +272,14 @@ function releaseCommand(program: Command): Command {
               await select({
                 message: 'Select the release type',
                 options: [
+                  ...(isAutoStrategy
+                    ? [
+                        {
+                          label: 'Auto (from commits)',
+                          value: 'auto' as const,
+                        },
+                      ]
+                    : []),
                   {
                     label: 'Major',
                     value: 'major',
@@ -139,10 +292,26 @@ function releaseCommand(program: Command): Command {
                     label: 'Patch',
                     value: 'patch',
                   },
+                  {
+                    label: 'Premajor',
+                    value: 'premajor',
+                  },
+                  {
+                    label: 'Preminor',
+                    value: 'preminor',
+                  },
+                  {
+                    label: 'Prepatch',
+                    value: 'prepatch',
+                  },
                   {
                     label: 'Prerelease',
                     value: 'prerelease',
                   },
+                  {
+                    label: 'Graduate (prerelease to stable)',
+                    value: 'graduate',
+                  },
                 ],
                 maxItems: 1,
               }),
@@ -169,12 +338,15 @@ function releaseCommand(program: Command): Command {
           return;
         }
 
-        const { releaseNotes, tagName, version } =
-          await releaseHandler(userConfig);
-
-        note(releaseNotes, 'Release Notes');
-        note(`Tag: ${tagName}`, 'Tag Name');
-        note(`Version: ${version}`, 'Version');
+        printRelease(
+          await releaseHandler({
+            ...userConfig,
+            preid: options.preid,
+            planOut: options.planOut,
+            from: options.from,
+            to: options.to,
+          })
+        );
       }
     });
 }
@@ -0,0 +1,151 @@
+import colors from 'picocolors';
+
+type DiffLine = {
+  type: 'added' | 'removed' | 'unchanged';
+  line: string;
+};
+
+const contextLines = 2;
+
+/**
+ * @description Computes the length of the longest common subsequence of every pair of suffixes.
+ * @param a - The original lines
+ * @param b - The new lines
+ * @returns A table where `[i][j]` is the length for `a[i..]` and `b[j..]`
+ */
+function commonSubsequenceLengths(a: string[], b: string[]): number[][] {
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  return lengths;
+}
+
+/**
+ * @description Computes a line diff between two lists of lines using their longest common subsequence.
+ * @param a - The original lines
+ * @param b - The new lines
+ * @returns The lines of both lists marked as added, removed or unchanged
+ */
+function diffChangedLines(a: string[], b: string[]): DiffLine[] {
+  const lengths = commonSubsequenceLengths(a, b);
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ type: 'unchanged', line: a[i] });
+      i++;
+      j++;
+    } else if (
+      j < b.length &&
+      (i === a.length || lengths[i][j + 1] >= lengths[i + 1][j])
+    ) {
+      lines.push({ type: 'added', line: b[j] });
+      j++;
+    } else {
+      lines.push({ type: 'removed', line: a[i] });
+      i++;
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * @description Computes a line diff between two texts.
+ * The common leading and trailing lines are trimmed first, so the subsequence table only covers the changed region.
+ * @param before - The original text
+ * @param after - The new text
+ * @returns The lines of both texts marked as added, removed or unchanged
+ */
+function diffLines(before: string, after: string): DiffLine[] {
+  const a = before === '' ? [] : before.split('\n');
+  const b = after === '' ? [] : after.split('\n');
+
+  let prefixLength = 0;
+  while (
+    prefixLength < a.length &&
+    prefixLength < b.length &&
+    a[prefixLength] === b[prefixLength]
+  ) {
+    prefixLength++;
+  }
+
+  let suffixLength = 0;
+  while (
+    suffixLength < a.length - prefixLength &&
+    suffixLength < b.length - prefixLength &&
+    a.at(-suffixLength - 1) === b.at(-suffixLength - 1)
+  ) {
+    suffixLength++;
+  }
+
+  const toUnchanged = (line: string): DiffLine => ({ type: 'unchanged', line });
+
+  return [
+    ...a.slice(0, prefixLength).map(toUnchanged),
+    ...diffChangedLines(
+      a.slice(prefixLength, a.length - suffixLength),
+      b.slice(prefixLength, b.length - suffixLength)
+    ),
+    ...a.slice(a.length - suffixLength).map(toUnchanged),
+  ];
+}
+
+/**
+ * @description Formats the change of a file as a colored diff, keeping a few unchanged lines around each change.
+ * @param before - The content before the change, null if the file is created
+ * @param after - The content after the change, null if the file is removed
+ * @returns The readable diff
+ */
+export function formatDiff(
+  before: string | null,
+  after: string | null
+): string {
+  const lines = diffLines(before ?? '', after ?? '');
+
+  const isVisible = (index: number) =>
+    lines
+      .slice(
+        Math.max(0, index - contextLines),
+        Math.min(lines.length, index + contextLines + 1)
+      )
+      .some(({ type }) => type !== 'unchanged');
+
+  const output: string[] = [];
+  let isCollapsed = false;
+
+  for (const [index, { type, line }] of lines.entries()) {
+    if (!isVisible(index)) {
+      if (!isCollapsed) {
+        output.push(colors.gray('…'));
+        isCollapsed = true;
+      }
+      continue;
+    }
+
+    isCollapsed = false;
+
+    if (type === 'added') {
+      output.push(colors.green(`+ ${line}`));
+    } else if (type === 'removed') {
+      output.push(colors.red(`- ${line}`));
+    } else {
+      output.push(colors.gray(`  ${line}`));
+    }
+  }
+
+  return output.join('\n');
+}